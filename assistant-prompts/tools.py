@@ -67,3 +67,48 @@ def check_package_version(package: str, min_version: str | None) -> dict[str, ob
         "min_version": min_version,
         "at_least_min_version": at_least_min_version,
     }
+
+
+def check_import_packages(imports: list[list[str]]) -> list[dict[str, object]]:
+    """
+    Check whether the packages that provide a list of imports are installed,
+    without importing them. Each import is a `[module, package]` pair, where
+    `package` is the name of the distribution, e.g. `["sklearn",
+    "scikit-learn"]`. Modules from the standard library are skipped.
+    """
+    import importlib.util
+    import sys
+    from importlib.metadata import PackageNotFoundError, version
+
+    stdlib = set(getattr(sys, "stdlib_module_names", ()))
+    stdlib.update(sys.builtin_module_names)
+
+    results: list[dict[str, object]] = []
+    for module, package in imports:
+        if module in stdlib:
+            continue
+
+        try:
+            ver = version(package)
+        except PackageNotFoundError:
+            ver = None
+
+        installed = ver is not None
+        if not installed:
+            # The module may come from a distribution with another name
+            try:
+                installed = importlib.util.find_spec(module) is not None
+            except (ImportError, ValueError):
+                installed = False
+
+        results.append(
+            {
+                "language": "python",
+                "module": module,
+                "package": package,
+                "version": ver,
+                "installed": installed,
+            }
+        )
+
+    return results
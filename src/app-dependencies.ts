@@ -0,0 +1,324 @@
+import * as fs from "fs";
+import * as path from "path";
+import { resolvePythonAppTarget } from "./python-app-target";
+
+// =============================================================================
+// App Dependencies
+// -----------------------------------------------------------------------------
+// Find the packages that an app uses by scanning its code, without running it:
+// `import x` and `from x import y` in Python, `library(x)`, `require(x)` and
+// `x::f()` in R. Python apps are followed into the local modules that they
+// import. R apps are scanned with all the R files of their app directory or
+// project, since R apps source or load those files.
+// =============================================================================
+
+/** A package that an app uses. */
+export interface AppDependency {
+  /** The name in the code: the top-level Python module or the R package. */
+  name: string;
+  /** The name to install, e.g. `scikit-learn` for `import sklearn`. */
+  package: string;
+}
+
+// Python modules whose distribution has another name. Modules that aren't
+// listed are installed by their own name.
+const PYTHON_DISTRIBUTIONS = new Map<string, string>([
+  ["attr", "attrs"],
+  ["bs4", "beautifulsoup4"],
+  ["Crypto", "pycryptodome"],
+  ["cv2", "opencv-python"],
+  ["dateutil", "python-dateutil"],
+  ["docx", "python-docx"],
+  ["dotenv", "python-dotenv"],
+  ["faiss", "faiss-cpu"],
+  ["fitz", "pymupdf"],
+  ["git", "gitpython"],
+  ["great_tables", "great-tables"],
+  ["jwt", "pyjwt"],
+  ["magic", "python-magic"],
+  ["MySQLdb", "mysqlclient"],
+  ["OpenSSL", "pyopenssl"],
+  ["PIL", "pillow"],
+  ["pptx", "python-pptx"],
+  ["serial", "pyserial"],
+  ["skimage", "scikit-image"],
+  ["sklearn", "scikit-learn"],
+  ["usb", "pyusb"],
+  ["win32api", "pywin32"],
+  ["win32com", "pywin32"],
+  ["yaml", "pyyaml"],
+  ["zmq", "pyzmq"],
+]);
+
+// Directories that hold installed packages or tooling rather than app code
+const SKIPPED_DIRS = new Set([
+  "node_modules",
+  "venv",
+  "renv",
+  "__pycache__",
+  "site-packages",
+]);
+
+// Don't read more files than this, e.g. for an app in a large repository
+const MAX_FILES = 500;
+
+/**
+ * Find the packages that an app uses.
+ *
+ * @param appPath The app file, or the app directory of a multi-file R app or
+ * the project root of an R app in a package or framework.
+ * @param language The app's language.
+ * @returns The packages, sorted by name.
+ */
+export function scanAppDependencies(
+  appPath: string,
+  language: "python" | "r"
+): AppDependency[] {
+  const names =
+    language === "python" ? scanPythonImports(appPath) : scanRPackages(appPath);
+  return [...names].sort().map((name) => ({
+    name,
+    package:
+      language === "python" ? (PYTHON_DISTRIBUTIONS.get(name) ?? name) : name,
+  }));
+}
+
+/* Python ------------------------------------------------------------------ */
+
+// The top-level modules that a Python app imports, following the app's own
+// modules
+function scanPythonImports(appFile: string): Set<string> {
+  // Local modules are imported from the app's directory, or from the
+  // directory of the app's package, e.g. `src/`
+  const importRoots = [path.dirname(appFile)];
+  const appDir = resolvePythonAppTarget(appFile).appDir;
+  if (appDir && !importRoots.includes(appDir)) {
+    importRoots.push(appDir);
+  }
+
+  const modules = new Set<string>();
+  const queue = [appFile];
+  const seen = new Set<string>();
+  while (queue.length > 0 && seen.size < MAX_FILES) {
+    const file = queue.shift()!;
+    if (seen.has(file)) {
+      continue;
+    }
+    seen.add(file);
+
+    for (const module of parsePythonImports(readFile(file) ?? "")) {
+      const local = module.startsWith(".")
+        ? relativeModulePath(file, module)
+        : importRoots
+            .map((root) => localModulePath(root, module.split(".")[0]))
+            .find((modulePath) => modulePath !== undefined);
+      if (local) {
+        queue.push(...pythonFiles(local));
+      } else if (!module.startsWith(".")) {
+        modules.add(module.split(".")[0]);
+      }
+    }
+  }
+  return modules;
+}
+
+/**
+ * Parse the modules that Python code imports. Absolute imports are returned
+ * with their full name, e.g. `shiny.express` for `from shiny.express import
+ * ui`. Relative imports keep their leading dots, e.g. `.utils` for `from .utils
+ * import x` and `from . import utils`.
+ */
+export function parsePythonImports(code: string): string[] {
+  const modules: string[] = [];
+  // Join continued lines and parenthesized import lists
+  const statements = code
+    .replace(/\\\r?\n/g, " ")
+    .replace(/\(([^()]*)\)/g, (match) => match.replace(/\r?\n/g, " "))
+    .split(/\r?\n/);
+
+  for (const statement of statements) {
+    const line = statement.replace(/#.*$/, "").trim();
+
+    const importMatch = /^import\s+(.+)$/.exec(line);
+    if (importMatch) {
+      modules.push(...importNames(importMatch[1]));
+      continue;
+    }
+
+    const fromMatch = /^from\s+(\.*)([\w.]*)\s+import\s+(.+)$/.exec(line);
+    if (fromMatch) {
+      const [, dots, module, names] = fromMatch;
+      if (module === "__future__") {
+        continue;
+      }
+      if (dots && !module) {
+        // `from . import utils` imports modules of the package
+        modules.push(...importNames(names).map((name) => dots + name));
+      } else {
+        modules.push(dots + module);
+      }
+    }
+  }
+  return modules;
+}
+
+// The modules of `a.b as c, d` or the names of `(x, y as z)`
+function importNames(list: string): string[] {
+  return list
+    .replace(/[()]/g, "")
+    .split(",")
+    .map((item) => item.trim().split(/\s+as\s+/)[0])
+    .filter((name) => /^[\w.]+$/.test(name));
+}
+
+// The file or package directory of a module in an import root
+function localModulePath(root: string, module: string): string | undefined {
+  const file = path.join(root, `${module}.py`);
+  if (fs.existsSync(file)) {
+    return file;
+  }
+  const dir = path.join(root, module);
+  return isDirectory(dir) ? dir : undefined;
+}
+
+// The file or package directory of a relative import, e.g. `..utils`
+function relativeModulePath(file: string, module: string): string | undefined {
+  const dots = /^\.+/.exec(module)![0].length;
+  let dir = path.dirname(file);
+  for (let i = 1; i < dots; i++) {
+    dir = path.dirname(dir);
+  }
+  const parts = module.slice(dots).split(".").filter(Boolean);
+  if (parts.length === 0) {
+    return undefined;
+  }
+  return localModulePath(path.join(dir, ...parts.slice(0, -1)), parts.at(-1)!);
+}
+
+function pythonFiles(modulePath: string): string[] {
+  return isDirectory(modulePath)
+    ? findFiles(modulePath, /\.py$/i)
+    : [modulePath];
+}
+
+/* R ----------------------------------------------------------------------- */
+
+// The packages that an R app uses, in the app file or in all R files of the
+// app directory or project
+function scanRPackages(appPath: string): Set<string> {
+  const files = isDirectory(appPath) ? findFiles(appPath, /\.r$/i) : [appPath];
+  const packages = new Set<string>();
+  for (const file of files) {
+    for (const pkg of parseRPackages(readFile(file) ?? "")) {
+      packages.add(pkg);
+    }
+  }
+
+  // An app in an R package may call its own package's functions with `::`
+  if (isDirectory(appPath)) {
+    const description = readFile(path.join(appPath, "DESCRIPTION")) ?? "";
+    const ownPackage = /^Package:\s*(\S+)/m.exec(description)?.[1];
+    if (ownPackage) {
+      packages.delete(ownPackage);
+    }
+  }
+  return packages;
+}
+
+const R_PACKAGE_NAME = "[A-Za-z][A-Za-z0-9.]*[A-Za-z0-9]";
+const R_LOAD_CALL = new RegExp(
+  `\\b(?:library|require|requireNamespace|loadNamespace)\\s*\\(\\s*` +
+    `(?:package\\s*=\\s*)?["'\`]?(${R_PACKAGE_NAME})["'\`]?\\s*[,)]`,
+  "g"
+);
+const R_NAMESPACE_ACCESS = new RegExp(
+  `(?<![\\w.])(${R_PACKAGE_NAME}):::?(?=[A-Za-z._\`])`,
+  "g"
+);
+
+/**
+ * Parse the packages that R code uses: with `library()`, `require()`,
+ * `requireNamespace()` or `loadNamespace()`, or with `pkg::f()`.
+ */
+export function parseRPackages(code: string): string[] {
+  const packages = new Set<string>();
+  for (const rawLine of code.split(/\r?\n/)) {
+    const line = stripRComment(rawLine);
+    // `library(pkg, character.only = TRUE)` loads the package named by `pkg`
+    if (!/character\.only\s*=\s*T/.test(line)) {
+      for (const match of line.matchAll(R_LOAD_CALL)) {
+        packages.add(match[1]);
+      }
+    }
+    for (const match of line.matchAll(R_NAMESPACE_ACCESS)) {
+      packages.add(match[1]);
+    }
+  }
+  return [...packages];
+}
+
+// Remove a `#` comment, unless the `#` is in a string
+function stripRComment(line: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === "\\") {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#") {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+/* Files ------------------------------------------------------------------- */
+
+function findFiles(dir: string, pattern: RegExp): string[] {
+  const files: string[] = [];
+  const dirs = [dir];
+  while (dirs.length > 0 && files.length < MAX_FILES) {
+    const current = dirs.shift()!;
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(current, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      if (entry.name.startsWith(".")) {
+        continue;
+      }
+      const entryPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name)) {
+          dirs.push(entryPath);
+        }
+      } else if (pattern.test(entry.name)) {
+        files.push(entryPath);
+      }
+    }
+  }
+  return files.sort();
+}
+
+function isDirectory(file: string): boolean {
+  try {
+    return fs.statSync(file).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function readFile(file: string): string | undefined {
+  try {
+    return fs.readFileSync(file, "utf8");
+  } catch {
+    return undefined;
+  }
+}
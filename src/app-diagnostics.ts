@@ -0,0 +1,202 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { isInExcludedDir } from "./app-discovery";
+import {
+  AppOutputParser,
+  type AppOutputEvent,
+  type AppProblem,
+  type AppProblemLocation,
+} from "./app-output-parser";
+import {
+  getRunningApp,
+  onDidChangeRunningApps,
+  onDidReceiveAppOutput,
+  stripTerminalEscapeSequences,
+  type RunningApp,
+} from "./running-apps";
+
+// =============================================================================
+// App Diagnostics
+// -----------------------------------------------------------------------------
+// Errors that a running app prints to its terminal (see app-output-parser.ts)
+// are shown in the Problems panel, on the file and line where they happened.
+// They are cleared when the app (re)starts successfully, e.g. after a reload,
+// and when the app is run again.
+// =============================================================================
+
+const DIAGNOSTIC_SOURCE = "Shiny";
+
+interface AppDiagnosticsState {
+  // The terminal of the app run that the diagnostics are for
+  terminal: vscode.Terminal | undefined;
+  parser: AppOutputParser;
+  diagnostics: vscode.DiagnosticCollection;
+}
+
+const appStates = new Map<string, AppDiagnosticsState>();
+
+function getAppState(app: RunningApp): AppDiagnosticsState {
+  let state = appStates.get(app.appPath);
+  if (state && state.terminal !== app.terminal) {
+    // The app was run again
+    disposeAppState(app.appPath);
+    state = undefined;
+  }
+  if (!state) {
+    state = {
+      terminal: app.terminal,
+      parser: new AppOutputParser(app.language),
+      diagnostics: vscode.languages.createDiagnosticCollection("shiny"),
+    };
+    appStates.set(app.appPath, state);
+  }
+  return state;
+}
+
+function disposeAppState(appPath: string): void {
+  appStates.get(appPath)?.diagnostics.dispose();
+  appStates.delete(appPath);
+}
+
+function handleAppOutputEvents(
+  app: RunningApp,
+  state: AppDiagnosticsState,
+  events: AppOutputEvent[]
+): void {
+  for (const event of events) {
+    if (event.type === "started") {
+      state.diagnostics.clear();
+    } else {
+      addProblem(app, state.diagnostics, event.problem);
+    }
+  }
+}
+
+function addProblem(
+  app: RunningApp,
+  diagnostics: vscode.DiagnosticCollection,
+  problem: AppProblem
+): void {
+  const location = findProblemLocation(app.appPath, problem.locations);
+  if (!location) {
+    return;
+  }
+
+  const line = Math.max(0, location.line - 1);
+  const range = location.column
+    ? new vscode.Range(line, location.column - 1, line, location.column - 1)
+    : new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER);
+
+  const diagnostic = new vscode.Diagnostic(
+    range,
+    problem.message,
+    vscode.DiagnosticSeverity.Error
+  );
+  diagnostic.source = DIAGNOSTIC_SOURCE;
+
+  const uri = vscode.Uri.file(location.file);
+  const existing = diagnostics.get(uri) ?? [];
+  const isDuplicate = existing.some(
+    (x) => x.message === diagnostic.message && x.range.isEqual(range)
+  );
+  if (!isDuplicate) {
+    diagnostics.set(uri, [...existing, diagnostic]);
+  }
+}
+
+/**
+ * Picks the innermost location that is in one of the user's files: in a
+ * workspace folder or the app's directory, and not in a directory of installed
+ * packages. Frames in Shiny, other packages and the standard library are
+ * skipped. If there is none, the error is shown on the app file itself.
+ *
+ * @param appPath The app file, or the directory of an R app.
+ * @param locations Where the error happened, innermost call first.
+ * @param isInWorkspace Whether a file is in a workspace folder.
+ */
+export function findProblemLocation(
+  appPath: string,
+  locations: AppProblemLocation[],
+  isInWorkspace: (file: string) => boolean = (file) =>
+    vscode.workspace.getWorkspaceFolder(vscode.Uri.file(file)) !== undefined
+): AppProblemLocation | undefined {
+  const appDir = isDirectory(appPath) ? appPath : path.dirname(appPath);
+
+  for (const location of locations) {
+    const file = resolveProblemFile(location.file, appDir);
+    if (
+      file &&
+      (isInWorkspace(file) || isInDir(file, appDir)) &&
+      !isInExcludedDir(file)
+    ) {
+      return { ...location, file };
+    }
+  }
+
+  const appFile = isDirectory(appPath)
+    ? ["app.R", "server.R", "ui.R"]
+        .map((name) => path.join(appPath, name))
+        .find((file) => fs.existsSync(file))
+    : appPath;
+  return appFile ? { file: appFile, line: 1 } : undefined;
+}
+
+function resolveProblemFile(file: string, appDir: string): string | undefined {
+  const candidates = path.isAbsolute(file)
+    ? [file]
+    : [
+        path.join(appDir, file),
+        ...(vscode.workspace.workspaceFolders ?? []).map((folder) =>
+          path.join(folder.uri.fsPath, file)
+        ),
+      ];
+  return candidates.find((x) => fs.existsSync(x) && !isDirectory(x));
+}
+
+function isInDir(file: string, dir: string): boolean {
+  const relative = path.relative(dir, file);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+function isDirectory(file: string): boolean {
+  return fs.existsSync(file) && fs.statSync(file).isDirectory();
+}
+
+/**
+ * Register the listeners that turn app output into diagnostics. This should be
+ * called once during extension activation.
+ */
+export function registerAppDiagnostics(): vscode.Disposable {
+  const onOutput = onDidReceiveAppOutput(({ app, data }) => {
+    const state = getAppState(app);
+    const events = state.parser.push(stripTerminalEscapeSequences(data));
+    handleAppOutputEvents(app, state, events);
+  });
+
+  const onChange = onDidChangeRunningApps(() => {
+    for (const [appPath, state] of appStates) {
+      const app = getRunningApp(appPath);
+      if (app && app.terminal !== state.terminal) {
+        // The app was run again; its old errors are out of date
+        disposeAppState(appPath);
+      } else if (app?.status === "crashed" || app?.status === "exited") {
+        handleAppOutputEvents(app, state, state.parser.flush());
+      } else if (
+        !app &&
+        (!state.terminal || state.terminal.exitStatus !== undefined)
+      ) {
+        // The app's terminal was closed, or its debug session ended
+        disposeAppState(appPath);
+      }
+    }
+  });
+
+  return vscode.Disposable.from(onOutput, onChange, {
+    dispose: () => {
+      for (const appPath of [...appStates.keys()]) {
+        disposeAppState(appPath);
+      }
+    },
+  });
+}
@@ -0,0 +1,148 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { isAlwaysAppFile } from "./app-file-patterns";
+import { isShinyAppFilename, isShinyAppRPart } from "./extension";
+import {
+  getRAppFrameworkEntryPoints,
+  getRAppFrameworkForEntryPoint,
+} from "./r-app-frameworks";
+
+/**
+ * A Shiny app entry point found in the workspace.
+ */
+export interface ShinyAppEntry {
+  /**
+   * Path that identifies the app, e.g. in the running app registry: the app
+   * file, the app directory for multi-file R apps, or the project root for R
+   * apps in a package or framework.
+   */
+  appPath: string;
+  /**
+   * The file to launch the app from. For multi-file R apps, this is one of
+   * `ui.R`, `server.R` or `global.R`. For R apps in a package or framework,
+   * this is the preferred entry point, like `R/run_app.R` for golem.
+   */
+  entryFile: string;
+  language: "python" | "r";
+  /** All files that make up the entry point, sorted. */
+  files: string[];
+}
+
+// Directories that hold installed packages or tooling rather than user apps.
+const EXCLUDED_DIRS = [
+  "node_modules",
+  ".git",
+  ".venv",
+  "venv",
+  "renv",
+  "__pycache__",
+  "site-packages",
+];
+const EXCLUDE_GLOB = `**/{${EXCLUDED_DIRS.join(",")}}/**`;
+
+/**
+ * Whether a file is in a directory that is never searched for apps, like
+ * `node_modules` or `.venv`.
+ */
+export function isInExcludedDir(filePath: string): boolean {
+  return path
+    .dirname(filePath)
+    .split(path.sep)
+    .some((part) => EXCLUDED_DIRS.includes(part));
+}
+
+/**
+ * Find the files in the workspace whose names make them Shiny app files (see
+ * `isShinyAppFilename()`), without reading them.
+ */
+export async function findShinyAppFiles(): Promise<string[]> {
+  const uris = await vscode.workspace.findFiles("**/*.{py,R,r}", EXCLUDE_GLOB);
+  return uris
+    .map((uri) => uri.fsPath)
+    .filter(
+      (file) =>
+        isShinyAppFilename(file, "python") || isShinyAppFilename(file, "r")
+    );
+}
+
+/**
+ * Find all Shiny app entry points in the workspace, based on their file names
+ * (see `isShinyAppFilename()`). Files that don't mention `shiny` are skipped,
+ * with the exception of multi-file R apps where only one of the `ui.R`,
+ * `server.R` and `global.R` files has to mention it, and R apps in a package or
+ * framework, which don't have to mention it. The parts of multi-file R apps are
+ * grouped into a single entry for their directory, and the entry points of R
+ * apps in a package or framework into a single entry for their project root.
+ *
+ * @returns The entries, sorted by app path.
+ */
+export async function findShinyApps(): Promise<ShinyAppEntry[]> {
+  const files = await findShinyAppFiles();
+
+  const entries: ShinyAppEntry[] = [];
+  const rPartsByDir = new Map<string, string[]>();
+  const frameworkRoots = new Set<string>();
+
+  for (const file of files) {
+    const framework = getRAppFrameworkForEntryPoint(file);
+    if (framework) {
+      if (!frameworkRoots.has(framework.root)) {
+        frameworkRoots.add(framework.root);
+        const entryPoints = getRAppFrameworkEntryPoints(framework);
+        entries.push({
+          appPath: framework.root,
+          entryFile: entryPoints[0] ?? file,
+          language: "r",
+          files: [...entryPoints].sort(),
+        });
+      }
+      continue;
+    }
+
+    if (isShinyAppRPart(file)) {
+      const dir = path.dirname(file);
+      rPartsByDir.set(dir, [...(rPartsByDir.get(dir) ?? []), file]);
+      continue;
+    }
+
+    const language = isShinyAppFilename(file, "python")
+      ? "python"
+      : isShinyAppFilename(file, "r")
+        ? "r"
+        : undefined;
+
+    if (
+      language &&
+      (isAlwaysAppFile(file) ||
+        (await fileMentionsShiny(vscode.Uri.file(file))))
+    ) {
+      entries.push({ appPath: file, entryFile: file, language, files: [file] });
+    }
+  }
+
+  for (const [dir, parts] of rPartsByDir) {
+    parts.sort();
+    const mentionsShiny = await Promise.all(
+      parts.map((part) => fileMentionsShiny(vscode.Uri.file(part)))
+    );
+    if (mentionsShiny.some((x) => x)) {
+      entries.push({
+        appPath: dir,
+        entryFile: parts[0],
+        language: "r",
+        files: parts,
+      });
+    }
+  }
+
+  return entries.sort((a, b) => a.appPath.localeCompare(b.appPath));
+}
+
+async function fileMentionsShiny(uri: vscode.Uri): Promise<boolean> {
+  try {
+    const content = Buffer.from(await vscode.workspace.fs.readFile(uri));
+    return content.toString().search(/\bshiny\b/) >= 0;
+  } catch {
+    return false;
+  }
+}
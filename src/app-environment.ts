@@ -0,0 +1,149 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { getPerAppSetting } from "./per-app-settings";
+
+// =============================================================================
+// App Environment Variables
+// -----------------------------------------------------------------------------
+// Apps often read secrets and connection strings from environment variables.
+// They are taken from the file in `shiny.envFile` (a `.env` file by default)
+// and from the per-app variables in `shiny.envOverrides`, and applied to every
+// way of launching an app: terminals, debug sessions and Positron consoles.
+// =============================================================================
+
+const DEFAULT_ENV_FILE = "${workspaceFolder}/.env";
+
+/**
+ * Resolves the environment variables for a given Shiny app file.
+ *
+ * Resolution order (later entries win):
+ * 1. Variables from the env file (shiny.envFile), if it exists
+ * 2. Workspace-specific variables for the app (shiny.envOverrides)
+ *
+ * @param appFilePath - Absolute path to the Shiny app file
+ * @returns The environment variables to set for the app
+ */
+export async function resolveAppEnvironment(
+  appFilePath: string
+): Promise<Record<string, string>> {
+  const config = vscode.workspace.getConfiguration(
+    "shiny",
+    vscode.Uri.file(appFilePath)
+  );
+  const workspaceRoot = getWorkspaceRoot(appFilePath);
+
+  const env: Record<string, string> = {};
+
+  const envFile = resolveEnvFilePath(
+    config.get<string>("envFile", DEFAULT_ENV_FILE),
+    workspaceRoot
+  );
+  if (envFile) {
+    Object.assign(env, await readEnvFile(envFile));
+  }
+
+  Object.assign(
+    env,
+    getPerAppSetting<Record<string, string>>(
+      "shiny",
+      "envOverrides",
+      appFilePath
+    )
+  );
+
+  return env;
+}
+
+/**
+ * Parses the contents of a `.env` file: one `NAME=value` pair per line, with
+ * optional `export` prefixes, `#` comments, and single- or double-quoted
+ * values. Double-quoted values may use `\n` escapes. Variable references like
+ * `${OTHER}` are not expanded.
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  for (const line of content.split(/\r?\n/)) {
+    const match = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*)$/.exec(line);
+    if (!match) {
+      continue;
+    }
+    const [, name, rawValue] = match;
+
+    const quoted = /^(['"])((?:\\.|(?!\1).)*)\1/.exec(rawValue);
+    if (quoted?.[1] === "'") {
+      env[name] = quoted[2];
+    } else if (quoted?.[1] === '"') {
+      env[name] = quoted[2].replace(/\\(.)/g, (_, char: string) =>
+        char === "n" ? "\n" : char === "r" ? "\r" : char
+      );
+    } else {
+      // Unquoted values end at a comment
+      env[name] = rawValue.replace(/(^|\s+)#.*$/, "").trim();
+    }
+  }
+
+  return env;
+}
+
+/**
+ * R code that sets the given environment variables, for apps that run in the
+ * Positron console.
+ */
+export function rSetEnvCode(env: Record<string, string>): string[] {
+  const names = Object.keys(env);
+  if (names.length === 0) {
+    return [];
+  }
+  const args = names.map(
+    (name) => `${rName(name)} = ${JSON.stringify(env[name])}`
+  );
+  return [`Sys.setenv(${args.join(", ")})`];
+}
+
+function rName(name: string): string {
+  return /^[A-Za-z][\w.]*$/.test(name) ? name : `\`${name}\``;
+}
+
+function getWorkspaceRoot(appFilePath: string): string | undefined {
+  const folder =
+    vscode.workspace.getWorkspaceFolder(vscode.Uri.file(appFilePath)) ??
+    vscode.workspace.workspaceFolders?.[0];
+  return folder?.uri.fsPath;
+}
+
+function resolveEnvFilePath(
+  envFile: string,
+  workspaceRoot: string | undefined
+): string | undefined {
+  if (!envFile) {
+    return undefined;
+  }
+  if (envFile.includes("${workspaceFolder}")) {
+    if (!workspaceRoot) {
+      return undefined;
+    }
+    envFile = envFile.replace(/\$\{workspaceFolder\}/g, workspaceRoot);
+  }
+  if (!path.isAbsolute(envFile)) {
+    if (!workspaceRoot) {
+      return undefined;
+    }
+    envFile = path.join(workspaceRoot, envFile);
+  }
+  return envFile;
+}
+
+async function readEnvFile(envFile: string): Promise<Record<string, string>> {
+  try {
+    const content = await fs.promises.readFile(envFile, "utf8");
+    return parseEnvFile(content);
+  } catch (err) {
+    // The default env file usually doesn't exist, which is fine
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.warn(`[shiny] Failed to read env file ${envFile}`, err);
+    }
+    return {};
+  }
+}
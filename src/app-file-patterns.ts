@@ -0,0 +1,182 @@
+import { minimatch } from "minimatch";
+import * as path from "path";
+import * as vscode from "vscode";
+import { findShinyAppFiles, isInExcludedDir } from "./app-discovery";
+
+// =============================================================================
+// App File Patterns
+// -----------------------------------------------------------------------------
+// Which files are Shiny app entry points: files that match the
+// `shiny.appFilePatterns` globs, and files that the user marked with "Always
+// Treat as Shiny App". (The `ui.R`, `server.R` and `global.R` files of
+// multi-file R apps are always app files, see isShinyAppFilename().)
+// =============================================================================
+
+// Keep in sync with the default of shiny.appFilePatterns in package.json
+const DEFAULT_APP_FILE_PATTERNS = [
+  "app.{py,R}",
+  "app[-_]*.{py,R}",
+  "*[-_]app.{py,R}",
+];
+
+// Workspace state key of the files that are always treated as apps
+const ALWAYS_APP_FILES_KEY = "shiny.alwaysAppFiles";
+
+// Wait this long after the last file change before re-scanning the workspace.
+const UPDATE_DELAY_MS = 1000;
+
+let workspaceState: vscode.Memento | undefined;
+
+const changeEmitter = new vscode.EventEmitter<void>();
+
+/**
+ * Fires when the files that count as app files may have changed, because
+ * `shiny.appFilePatterns` changed or a file was (un)marked as an app.
+ */
+export const onDidChangeAppFilePatterns = changeEmitter.event;
+
+/**
+ * Whether a file matches one of the `shiny.appFilePatterns` globs. Patterns
+ * without a `/` are matched against the file name, others against the path
+ * relative to the workspace folder. Matching is case-insensitive.
+ *
+ * @param filename The file, either absolute or relative to the workspace
+ * folder.
+ */
+export function matchesAppFilePattern(filename: string): boolean {
+  const patterns = vscode.workspace
+    .getConfiguration("shiny")
+    .get<string[]>("appFilePatterns", DEFAULT_APP_FILE_PATTERNS);
+
+  const relativePath = (
+    path.isAbsolute(filename)
+      ? vscode.workspace.asRelativePath(filename, false)
+      : filename
+  )
+    .split(path.sep)
+    .join("/")
+    .replace(/^\.\//, "");
+
+  return patterns.some((pattern) =>
+    minimatch(relativePath, pattern, { matchBase: true, nocase: true })
+  );
+}
+
+/**
+ * Whether the user marked a file as an app with "Always Treat as Shiny App".
+ *
+ * @param filename The absolute path of the file.
+ */
+export function isAlwaysAppFile(filename: string): boolean {
+  return getAlwaysAppFiles().includes(path.normalize(filename));
+}
+
+function getAlwaysAppFiles(): string[] {
+  return workspaceState?.get<string[]>(ALWAYS_APP_FILES_KEY) ?? [];
+}
+
+async function setAlwaysAppFile(
+  uri: vscode.Uri | undefined,
+  alwaysApp: boolean
+): Promise<void> {
+  const file = (uri ?? vscode.window.activeTextEditor?.document.uri)?.fsPath;
+  if (!file) {
+    vscode.window.showErrorMessage("No active file");
+    return;
+  }
+  if (!/\.(py|r)$/i.test(file)) {
+    vscode.window.showErrorMessage(
+      "Only Python and R files can be Shiny apps."
+    );
+    return;
+  }
+
+  const files = getAlwaysAppFiles().filter((x) => x !== path.normalize(file));
+  if (alwaysApp) {
+    files.push(path.normalize(file));
+  }
+  await workspaceState?.update(ALWAYS_APP_FILES_KEY, files);
+
+  changeEmitter.fire();
+}
+
+/**
+ * Set the context keys that the explorer menus use: `shiny.appFiles`, the app
+ * files in the workspace, and `shiny.alwaysAppFiles`.
+ */
+async function updateAppFilesContext(): Promise<void> {
+  vscode.commands.executeCommand(
+    "setContext",
+    "shiny.alwaysAppFiles",
+    getAlwaysAppFiles()
+  );
+  vscode.commands.executeCommand(
+    "setContext",
+    "shiny.appFiles",
+    await findShinyAppFiles()
+  );
+}
+
+/**
+ * Register the "Always Treat as Shiny App" commands, and keep the app file
+ * context keys up to date. This should be called once during extension
+ * activation.
+ */
+export function registerAppFilePatterns(
+  context: vscode.ExtensionContext
+): void {
+  workspaceState = context.workspaceState;
+
+  let updateTimer: NodeJS.Timeout | undefined;
+  const scheduleUpdate = () => {
+    if (updateTimer) {
+      clearTimeout(updateTimer);
+    }
+    updateTimer = setTimeout(() => {
+      updateTimer = undefined;
+      updateAppFilesContext().catch((err) => {
+        console.warn("[shiny] Failed to update app files", err);
+      });
+    }, UPDATE_DELAY_MS);
+  };
+
+  const watcher = vscode.workspace.createFileSystemWatcher("**/*.{py,R,r}");
+  const onFileChange = (uri: vscode.Uri) => {
+    if (!isInExcludedDir(uri.fsPath)) {
+      scheduleUpdate();
+    }
+  };
+
+  context.subscriptions.push(
+    changeEmitter,
+    watcher,
+    watcher.onDidCreate(onFileChange),
+    watcher.onDidDelete(onFileChange),
+    vscode.workspace.onDidChangeWorkspaceFolders(scheduleUpdate),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("shiny.appFilePatterns")) {
+        changeEmitter.fire();
+      }
+    }),
+    onDidChangeAppFilePatterns(scheduleUpdate),
+    vscode.commands.registerCommand(
+      "shiny.alwaysTreatAsApp",
+      (uri?: vscode.Uri) => setAlwaysAppFile(uri, true)
+    ),
+    vscode.commands.registerCommand(
+      "shiny.stopTreatingAsApp",
+      (uri?: vscode.Uri) => setAlwaysAppFile(uri, false)
+    ),
+    {
+      dispose: () => {
+        if (updateTimer) {
+          clearTimeout(updateTimer);
+        }
+      },
+    }
+  );
+
+  updateAppFilesContext().catch((err) => {
+    console.warn("[shiny] Failed to update app files", err);
+  });
+}
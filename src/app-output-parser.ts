@@ -0,0 +1,209 @@
+// =============================================================================
+// App Output Parser
+// -----------------------------------------------------------------------------
+// Finds errors in the terminal output of a running Shiny app: Python
+// tracebacks, and R errors with the stack traces that Shiny prints for errors
+// in reactives (`Warning: Error in ...`). It also notices when the app has
+// (re)started successfully, so that earlier errors can be cleared.
+// =============================================================================
+
+export interface AppProblemLocation {
+  /** File path as printed by the app; may be relative. */
+  file: string;
+  /** 1-based line number. */
+  line: number;
+  /** 1-based column number, if known. */
+  column?: number;
+}
+
+export interface AppProblem {
+  message: string;
+  /**
+   * Where the error happened, innermost call first. Library frames are
+   * included; it's up to the caller to pick the most relevant location.
+   */
+  locations: AppProblemLocation[];
+}
+
+export type AppOutputEvent =
+  | { type: "problem"; problem: AppProblem }
+  | { type: "started" };
+
+// Python ---------------------------------------------------------------------
+const PY_TRACEBACK_START = /^Traceback \(most recent call last\):/;
+const PY_FRAME = /^\s+File "(.+)", line (\d+)/;
+// Between the tracebacks of chained exceptions
+const PY_CHAINED =
+  /^(During handling of the above exception|The above exception was the direct cause)/;
+// uvicorn, on startup and after each reload
+const PY_STARTED = /Application startup complete\./;
+
+// R --------------------------------------------------------------------------
+// Shiny's stack traces for errors in reactives and outputs, e.g.
+//   Warning: Error in renderPlot: object 'x' not found
+//     99: renderPlot [/path/to/app.R#25]
+const R_STACK_TRACE_START = /^Warning: Error in (.*)$/;
+// Frames are numbered down to 1, the outermost call
+const R_STACK_FRAME = /^\s*(\d+):\s+.*?(?:\s+\[(.+)#(\d+)\])?$/;
+// Top-level errors, e.g. when sourcing the app fails
+// (`::` in calls like `shiny::runApp()` isn't the separator)
+const R_ERROR = /^Error(?: in (.*?))?\s*(?<!:):(?!:)\s*(.*)$/;
+// Location in parse errors, e.g. `app.R:12:3: unexpected symbol`
+const R_PARSE_ERROR_LOCATION = /^(.+?):(\d+):(\d+): (.*)$/;
+const R_STARTED = /^Listening on https?:\/\//;
+
+/**
+ * Parses the output of a Shiny app, which may arrive in arbitrary chunks.
+ * Only complete lines are parsed; call `flush()` when the output ends.
+ */
+export class AppOutputParser {
+  private buffer = "";
+
+  // Python traceback in progress
+  private pyFrames: AppProblemLocation[] | undefined;
+
+  // R stack trace in progress
+  private rStackMessage: string | undefined;
+  private rStackFrames: AppProblemLocation[] = [];
+
+  // R error whose message is on the next line
+  private rPendingErrorCall: string | undefined;
+
+  constructor(private readonly language: "python" | "r") {}
+
+  /** Parses a chunk of output, returning the events in its complete lines. */
+  push(data: string): AppOutputEvent[] {
+    this.buffer += data;
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop() ?? "";
+
+    const events: AppOutputEvent[] = [];
+    for (const line of lines) {
+      events.push(...this.parseLine(line));
+    }
+    return events;
+  }
+
+  /** Parses any remaining output, at the end of the output. */
+  flush(): AppOutputEvent[] {
+    const events = this.buffer ? this.parseLine(this.buffer) : [];
+    this.buffer = "";
+    events.push(...this.endRStackTrace());
+    return events;
+  }
+
+  private parseLine(line: string): AppOutputEvent[] {
+    return this.language === "python"
+      ? this.parsePythonLine(line)
+      : this.parseRLine(line);
+  }
+
+  private parsePythonLine(line: string): AppOutputEvent[] {
+    if (PY_TRACEBACK_START.test(line)) {
+      this.pyFrames = [];
+      return [];
+    }
+
+    if (this.pyFrames) {
+      const frame = PY_FRAME.exec(line);
+      if (frame) {
+        this.pyFrames.push({ file: frame[1], line: Number(frame[2]) });
+        return [];
+      }
+      // Source lines, carets and blank lines within the traceback
+      if (/^\s/.test(line) || line === "" || PY_CHAINED.test(line)) {
+        return [];
+      }
+      // The first unindented line is the exception, e.g. `ValueError: oops`
+      const locations = this.pyFrames.reverse();
+      this.pyFrames = undefined;
+      return [{ type: "problem", problem: { message: line, locations } }];
+    }
+
+    if (PY_STARTED.test(line)) {
+      return [{ type: "started" }];
+    }
+
+    return [];
+  }
+
+  private parseRLine(line: string): AppOutputEvent[] {
+    if (this.rStackMessage !== undefined) {
+      const frame = R_STACK_FRAME.exec(line);
+      if (frame) {
+        if (frame[2]) {
+          this.rStackFrames.push({ file: frame[2], line: Number(frame[3]) });
+        }
+        return frame[1] === "1" ? this.endRStackTrace() : [];
+      }
+      return [...this.endRStackTrace(), ...this.parseRLine(line)];
+    }
+
+    if (this.rPendingErrorCall !== undefined) {
+      const call = this.rPendingErrorCall;
+      this.rPendingErrorCall = undefined;
+      return [this.rErrorEvent(call, line.trim())];
+    }
+
+    const stackTrace = R_STACK_TRACE_START.exec(line);
+    if (stackTrace) {
+      this.rStackMessage = `Error in ${stackTrace[1]}`;
+      this.rStackFrames = [];
+      return [];
+    }
+
+    const error = R_ERROR.exec(line);
+    if (error) {
+      const call = error[1] ?? "";
+      const message = error[2].trim();
+      // Long error messages are printed on the line after the call
+      if (message === "") {
+        this.rPendingErrorCall = call;
+        return [];
+      }
+      return [this.rErrorEvent(call, message)];
+    }
+
+    if (R_STARTED.test(line)) {
+      return [{ type: "started" }];
+    }
+
+    return [];
+  }
+
+  private rErrorEvent(call: string, message: string): AppOutputEvent {
+    const locations: AppProblemLocation[] = [];
+
+    const parseError = R_PARSE_ERROR_LOCATION.exec(message);
+    if (parseError) {
+      locations.push({
+        file: parseError[1],
+        line: Number(parseError[2]),
+        column: Number(parseError[3]),
+      });
+      message = parseError[4];
+    }
+
+    return {
+      type: "problem",
+      problem: {
+        message: call ? `Error in ${call}: ${message}` : `Error: ${message}`,
+        locations,
+      },
+    };
+  }
+
+  private endRStackTrace(): AppOutputEvent[] {
+    if (this.rStackMessage === undefined) {
+      return [];
+    }
+    const problem: AppProblem = {
+      message: this.rStackMessage,
+      // Shiny prints the innermost call first
+      locations: this.rStackFrames,
+    };
+    this.rStackMessage = undefined;
+    this.rStackFrames = [];
+    return [{ type: "problem", problem }];
+  }
+}
@@ -0,0 +1,218 @@
+import { PythonExtension } from "@vscode/python-extension";
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { appPathForFile, findRInstallations } from "./run";
+
+// =============================================================================
+// App Runtimes
+// -----------------------------------------------------------------------------
+// In a workspace with several apps, each app can use its own Python
+// interpreter or R installation, chosen with "Select Runtime for This App".
+// The choice is stored in the workspace state, because runtime paths are
+// specific to the machine. Apps without a choice use the selected Python
+// interpreter (or environment manager, see environment-managers.ts) and the R
+// found by getRBinPath().
+// =============================================================================
+
+interface AppRuntime {
+  language: "python" | "r";
+  /** The Python interpreter or the `R` executable. */
+  path: string;
+}
+
+// Workspace state key of the runtimes, keyed by app path (see appPathForFile())
+const APP_RUNTIMES_KEY = "shiny.appRuntimes";
+
+let workspaceState: vscode.Memento | undefined;
+
+/**
+ * The runtime that the user selected for an app.
+ *
+ * @param appFile The app file, or any file of a multi-file R app.
+ * @param language The app's language.
+ * @returns The Python interpreter or `R` executable, or undefined if none was
+ * selected or it no longer exists.
+ */
+export function getAppRuntime(
+  appFile: string,
+  language: "python" | "r"
+): string | undefined {
+  const runtime = getAppRuntimes()[appPathForFile(appFile)];
+  if (!runtime || runtime.language !== language) {
+    return undefined;
+  }
+  if (!fs.existsSync(runtime.path)) {
+    console.warn(
+      `[shiny] The runtime selected for ${appFile} no longer exists: ${runtime.path}`
+    );
+    return undefined;
+  }
+  return runtime.path;
+}
+
+/**
+ * The file in the active editor, for code that runs on behalf of the app the
+ * user is working on, like Shiny Assistant's tools.
+ */
+export function getActiveEditorAppFile(): string | undefined {
+  const uri = vscode.window.activeTextEditor?.document.uri;
+  return uri?.scheme === "file" ? uri.fsPath : undefined;
+}
+
+function getAppRuntimes(): Record<string, AppRuntime> {
+  return (
+    workspaceState?.get<Record<string, AppRuntime>>(APP_RUNTIMES_KEY) ?? {}
+  );
+}
+
+interface RuntimeQuickPickItem extends vscode.QuickPickItem {
+  runtimePath?: string;
+  browse?: boolean;
+}
+
+/**
+ * Let the user choose the Python interpreter or R installation for an app,
+ * from the environments that the Python extension knows about or the R
+ * installations that getRBinPath() would find.
+ *
+ * @param uri The app file. Defaults to the file in the active editor.
+ */
+export async function selectAppRuntime(uri?: vscode.Uri): Promise<void> {
+  const file = (uri ?? vscode.window.activeTextEditor?.document.uri)?.fsPath;
+  if (!file) {
+    vscode.window.showErrorMessage("No active file");
+    return;
+  }
+  const language = /\.py$/i.test(file)
+    ? "python"
+    : /\.r$/i.test(file)
+      ? "r"
+      : undefined;
+  if (!language) {
+    vscode.window.showErrorMessage(
+      "Only Python and R files can be Shiny apps."
+    );
+    return;
+  }
+
+  const runtimes =
+    language === "python"
+      ? await getPythonRuntimeItems(file)
+      : await getRRuntimeItems();
+  if (!runtimes) {
+    return;
+  }
+
+  const current = getAppRuntime(file, language);
+  const items: RuntimeQuickPickItem[] = [
+    {
+      label: "Default",
+      description:
+        language === "python"
+          ? "The selected Python interpreter"
+          : "The R found in settings or on the PATH",
+    },
+    ...runtimes,
+    {
+      label: "$(folder-opened) Browse...",
+      description:
+        language === "python"
+          ? "Choose a Python interpreter"
+          : "Choose an R executable",
+      browse: true,
+    },
+  ];
+  for (const item of items) {
+    const isCurrent = item.runtimePath
+      ? item.runtimePath === current
+      : !item.browse && !current;
+    if (isCurrent) {
+      item.label = `$(check) ${item.label}`;
+    }
+  }
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: `Select Runtime for ${path.basename(file)}`,
+    placeHolder: current ? `Currently: ${current}` : undefined,
+    matchOnDescription: true,
+  });
+  if (!selected) {
+    return;
+  }
+
+  let runtimePath = selected.runtimePath;
+  if (selected.browse) {
+    const picked = await vscode.window.showOpenDialog({
+      title: language === "python" ? "Python Interpreter" : "R Executable",
+      canSelectMany: false,
+      defaultUri: vscode.Uri.file(path.dirname(file)),
+    });
+    if (!picked?.[0]) {
+      return;
+    }
+    runtimePath = picked[0].fsPath;
+  }
+
+  const appRuntimes = { ...getAppRuntimes() };
+  if (runtimePath) {
+    appRuntimes[appPathForFile(file)] = { language, path: runtimePath };
+  } else {
+    delete appRuntimes[appPathForFile(file)];
+  }
+  await workspaceState?.update(APP_RUNTIMES_KEY, appRuntimes);
+}
+
+async function getPythonRuntimeItems(
+  file: string
+): Promise<RuntimeQuickPickItem[] | undefined> {
+  if (!vscode.extensions.getExtension("ms-python.python")) {
+    vscode.window.showErrorMessage(
+      "The Python extension is required to list Python environments."
+    );
+    return undefined;
+  }
+
+  const pythonAPI = await PythonExtension.api();
+  const activePath = pythonAPI.environments.getActiveEnvironmentPath(
+    vscode.Uri.file(file)
+  ).path;
+
+  return pythonAPI.environments.known.map((env) => {
+    const version = env.version
+      ? `Python ${env.version.major}.${env.version.minor}.${env.version.micro}`
+      : "Python";
+    const runtimePath = env.executable.uri?.fsPath ?? env.path;
+    return {
+      label: env.environment?.name
+        ? `${version} (${env.environment.name})`
+        : version,
+      description: runtimePath,
+      detail: env.path === activePath ? "Selected interpreter" : undefined,
+      runtimePath,
+    };
+  });
+}
+
+async function getRRuntimeItems(): Promise<RuntimeQuickPickItem[]> {
+  return (await findRInstallations()).map(({ path: runtimePath, source }) => ({
+    label: runtimePath,
+    description: source,
+    runtimePath,
+  }));
+}
+
+/**
+ * Register the "Select Runtime for This App" command. This should be called
+ * once during extension activation.
+ */
+export function registerAppRuntimes(context: vscode.ExtensionContext): void {
+  workspaceState = context.workspaceState;
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "shiny.selectAppRuntime",
+      (uri?: vscode.Uri) => selectAppRuntime(uri)
+    )
+  );
+}
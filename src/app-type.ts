@@ -0,0 +1,107 @@
+import { isShinyAppRPart } from "./extension";
+
+// =============================================================================
+// App Type
+// -----------------------------------------------------------------------------
+// Tells the kinds of Shiny apps apart from the source of the app file, without
+// really parsing it: Shiny Express and Shiny Core apps in Python, and
+// single-file and multi-file apps in R.
+// =============================================================================
+
+export type ShinyAppType =
+  | "express"
+  | "core"
+  | "r-single-file"
+  | "r-multi-file";
+
+export interface ShinyAppClassification {
+  type: ShinyAppType;
+  /** Likely mistakes that would keep the app from running. */
+  warnings: string[];
+}
+
+const APP_TYPE_LABELS: Record<ShinyAppType, string> = {
+  express: "Shiny Express",
+  core: "Shiny Core",
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  "r-single-file": "Shiny for R",
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  "r-multi-file": "Shiny for R (multi-file)",
+};
+
+const SHINY = /\bshiny\b/;
+
+// Python ---------------------------------------------------------------------
+// `from shiny.express import ui`, `from shiny import express` or
+// `import shiny.express`
+const PY_EXPRESS_IMPORT =
+  /^\s*(?:from\s+shiny\.express\b|from\s+shiny\s+import\s+[^#\n]*\bexpress\b|import\s+shiny\.express\b)/m;
+// Express apps build their UI at the top level of the file
+const PY_EXPRESS_USAGE = /^(?:@render\.|@reactive\.|with\s+ui\.)/m;
+// `app = App(app_ui, server)`, also with a type annotation
+const PY_APP_OBJECT = /^app\s*(?::[^=\n]*)?=/m;
+const PY_APP_CALL = /\bApp\s*\(/;
+const PY_SERVER_FUNCTION = /^(?:async\s+)?def\s+server\s*\(/m;
+
+/**
+ * Classify a Shiny app file. Returns undefined if the file doesn't look like a
+ * Shiny app at all.
+ *
+ * @param filename The app file.
+ * @param language The language of the app file.
+ * @param content The source of the app file.
+ */
+export function classifyShinyApp(
+  filename: string,
+  language: "python" | "r",
+  content: string
+): ShinyAppClassification | undefined {
+  if (!SHINY.test(content)) {
+    return undefined;
+  }
+
+  if (language === "r") {
+    return {
+      type: isShinyAppRPart(filename) ? "r-multi-file" : "r-single-file",
+      warnings: [],
+    };
+  }
+
+  if (PY_EXPRESS_IMPORT.test(content)) {
+    return { type: "express", warnings: [] };
+  }
+
+  const hasAppObject = PY_APP_OBJECT.test(content);
+  if (
+    hasAppObject ||
+    PY_APP_CALL.test(content) ||
+    PY_SERVER_FUNCTION.test(content)
+  ) {
+    return {
+      type: "core",
+      warnings: hasAppObject
+        ? []
+        : [
+            "No `app = App(...)` object was found. Shiny Core apps need to " +
+              "assign the app to a top-level variable named `app`.",
+          ],
+    };
+  }
+
+  if (PY_EXPRESS_USAGE.test(content)) {
+    return {
+      type: "express",
+      warnings: [
+        "This looks like a Shiny Express app, but it doesn't import from " +
+          "`shiny.express`. Add e.g. `from shiny.express import input, ui`.",
+      ],
+    };
+  }
+
+  return undefined;
+}
+
+/** Human-readable name of an app type, e.g. "Shiny Express". */
+export function appTypeLabel(type: ShinyAppType | undefined): string {
+  return type ? APP_TYPE_LABELS[type] : "Shiny";
+}
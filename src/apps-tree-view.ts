@@ -0,0 +1,224 @@
+import * as vscode from "vscode";
+import {
+  findShinyApps,
+  isInExcludedDir,
+  type ShinyAppEntry,
+} from "./app-discovery";
+import { onDidChangeAppFilePatterns } from "./app-file-patterns";
+import { selectAppRuntime } from "./app-runtimes";
+import {
+  openRunningAppPreview,
+  pyDebugApp,
+  pyRunApp,
+  rDebugApp,
+  rRunApp,
+  stopApp,
+} from "./run";
+import {
+  appLabel,
+  getRunningApp,
+  onDidChangeRunningApps,
+  type RunningApp,
+} from "./running-apps";
+import { shinyliveCreateFromExplorer } from "./shinylive";
+
+// =============================================================================
+// Shiny Apps View
+// -----------------------------------------------------------------------------
+// An Explorer view that lists every Shiny app in the workspace, with inline
+// actions to run, debug, stop and preview each app, and its live run status.
+// The inline actions are declared in package.json and keyed off each item's
+// contextValue, `shinyApp.<language>.<status>`.
+// =============================================================================
+
+const VIEW_ID = "shiny.appsView";
+
+// Wait this long after the last file change before re-scanning the workspace.
+const REFRESH_DELAY_MS = 1000;
+
+class ShinyAppsTreeDataProvider
+  implements vscode.TreeDataProvider<ShinyAppEntry>, vscode.Disposable
+{
+  private changeEmitter = new vscode.EventEmitter<ShinyAppEntry | void>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  // Apps found by the most recent scan, or undefined if a re-scan is needed.
+  private apps: Promise<ShinyAppEntry[]> | undefined;
+  private refreshTimer: NodeJS.Timeout | undefined;
+
+  /** Re-scan the workspace for apps. */
+  refresh(): void {
+    this.apps = undefined;
+    this.changeEmitter.fire();
+  }
+
+  /** Re-scan the workspace for apps after a short delay. */
+  scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = undefined;
+      this.refresh();
+    }, REFRESH_DELAY_MS);
+  }
+
+  /** Update the run status of the apps, without re-scanning the workspace. */
+  updateStatus(): void {
+    this.changeEmitter.fire();
+  }
+
+  getChildren(element?: ShinyAppEntry): Promise<ShinyAppEntry[]> {
+    if (element) {
+      return Promise.resolve([]);
+    }
+    if (!this.apps) {
+      this.apps = findShinyApps();
+    }
+    return this.apps;
+  }
+
+  getTreeItem(entry: ShinyAppEntry): vscode.TreeItem {
+    const app = getRunningApp(entry.appPath);
+    const status = app?.status ?? "stopped";
+
+    const item = new vscode.TreeItem(
+      appLabel(entry.appPath),
+      vscode.TreeItemCollapsibleState.None
+    );
+    item.id = entry.appPath;
+    item.contextValue = `shinyApp.${entry.language}.${status}`;
+    item.description = app ? describeStatus(app) : undefined;
+    item.tooltip = entry.files
+      .map((file) => vscode.workspace.asRelativePath(file, false))
+      .join("\n");
+    item.command = {
+      title: "Open App File",
+      command: "vscode.open",
+      arguments: [vscode.Uri.file(entry.entryFile)],
+    };
+
+    switch (status) {
+      case "starting":
+        item.iconPath = new vscode.ThemeIcon("loading~spin");
+        break;
+      case "running":
+        item.iconPath = new vscode.ThemeIcon(
+          "debug-start",
+          new vscode.ThemeColor("testing.iconPassed")
+        );
+        break;
+      case "crashed":
+        item.iconPath = new vscode.ThemeIcon(
+          "error",
+          new vscode.ThemeColor("testing.iconFailed")
+        );
+        break;
+      case "exited":
+        item.iconPath = new vscode.ThemeIcon(
+          "debug-stop",
+          new vscode.ThemeColor("testing.iconSkipped")
+        );
+        break;
+      default:
+        // Use the file icon from the user's icon theme
+        item.resourceUri = vscode.Uri.file(entry.entryFile);
+    }
+
+    return item;
+  }
+
+  dispose(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.changeEmitter.dispose();
+  }
+}
+
+function describeStatus(app: RunningApp): string {
+  switch (app.status) {
+    case "starting":
+      return "starting…";
+    case "running":
+      return `running on port ${app.port}`;
+    case "crashed":
+      return app.exitCode === undefined
+        ? "crashed"
+        : `crashed (exit code ${app.exitCode})`;
+    case "exited":
+      return "exited (exit status unknown)";
+  }
+}
+
+async function runAppEntry(entry: ShinyAppEntry): Promise<void> {
+  if (entry.language === "python") {
+    await pyRunApp(entry.entryFile);
+  } else {
+    await rRunApp(entry.entryFile);
+  }
+}
+
+async function debugAppEntry(entry: ShinyAppEntry): Promise<void> {
+  if (entry.language === "python") {
+    await pyDebugApp(entry.entryFile);
+  } else {
+    await rDebugApp(entry.entryFile);
+  }
+}
+
+async function createShinyliveLinkForEntry(
+  entry: ShinyAppEntry
+): Promise<void> {
+  const uris = entry.files.map((file) => vscode.Uri.file(file));
+  await shinyliveCreateFromExplorer(uris[0], uris);
+}
+
+/**
+ * Register the Shiny Apps view and its commands. This should be called once
+ * during extension activation.
+ */
+export function registerShinyAppsView(context: vscode.ExtensionContext): void {
+  const provider = new ShinyAppsTreeDataProvider();
+
+  const watcher = vscode.workspace.createFileSystemWatcher("**/*.{py,R,r}");
+  const onFileChange = (uri: vscode.Uri) => {
+    if (!isInExcludedDir(uri.fsPath)) {
+      provider.scheduleRefresh();
+    }
+  };
+
+  context.subscriptions.push(
+    provider,
+    watcher,
+    watcher.onDidCreate(onFileChange),
+    watcher.onDidDelete(onFileChange),
+    watcher.onDidChange(onFileChange),
+    vscode.workspace.onDidChangeWorkspaceFolders(() => provider.refresh()),
+    onDidChangeAppFilePatterns(() => provider.refresh()),
+    onDidChangeRunningApps(() => provider.updateStatus()),
+    vscode.window.registerTreeDataProvider(VIEW_ID, provider),
+    vscode.commands.registerCommand("shiny.appsView.refresh", () =>
+      provider.refresh()
+    ),
+    vscode.commands.registerCommand("shiny.appsView.runApp", runAppEntry),
+    vscode.commands.registerCommand("shiny.appsView.debugApp", debugAppEntry),
+    vscode.commands.registerCommand(
+      "shiny.appsView.stopApp",
+      (entry: ShinyAppEntry) => stopApp(entry.appPath)
+    ),
+    vscode.commands.registerCommand(
+      "shiny.appsView.openPreview",
+      (entry: ShinyAppEntry) => openRunningAppPreview(entry.appPath)
+    ),
+    vscode.commands.registerCommand(
+      "shiny.appsView.createShinyliveLink",
+      createShinyliveLinkForEntry
+    ),
+    vscode.commands.registerCommand(
+      "shiny.appsView.selectRuntime",
+      (entry: ShinyAppEntry) =>
+        selectAppRuntime(vscode.Uri.file(entry.entryFile))
+    )
+  );
+}
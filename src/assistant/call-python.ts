@@ -1,9 +1,10 @@
 import * as vscode from "vscode";
+import { getActiveEditorAppFile } from "../app-runtimes";
 import {
   runShellCommandWithTerminalOutput,
   type TerminalWithMyPty,
 } from "../extension-api-utils/run-command-terminal-output";
-import { getSelectedPythonInterpreter } from "../run";
+import { getPythonCommand } from "../run";
 import type { RunCommandWithTerminalResult } from "./call-types";
 import { type JSONifiable } from "./types";
 
@@ -29,6 +30,10 @@ import { type JSONifiable } from "./types";
  * @param opts.terminal - Optional VS Code terminal to reuse
  * @param opts.newTerminalName - Name for the new terminal if one needs to be
  * created
+ * @param opts.appFile - The app whose runtime to use, see getAppRuntime().
+ * Defaults to the file in the active editor.
+ * @param opts.preserveFocus - Whether to show the terminal without focusing it
+ * @param opts.timeoutMs - How long the function may run
  *
  * @returns A Promise that resolves to the function's output as a string. If R
  *          is not installed, returns an error message. If the R function
@@ -48,10 +53,18 @@ export async function callPythonFunction(
     imports?: string[];
     terminal?: TerminalWithMyPty;
     newTerminalName: string;
+    appFile?: string;
+    /** The Python to run, instead of the one that runs the app. */
+    python?: { command: string; args: string[] };
+    preserveFocus?: boolean;
+    timeoutMs?: number;
   }
 ): Promise<RunCommandWithTerminalResult> {
-  const langRuntimePath = await getSelectedPythonInterpreter();
-  if (!langRuntimePath) {
+  // Run Python like the app is run, e.g. with `uv run` or its own runtime
+  const python =
+    opts.python ??
+    (await getPythonCommand(opts.appFile ?? getActiveEditorAppFile()));
+  if (!python) {
     return {
       cmdResult: {
         status: "error",
@@ -98,6 +111,7 @@ _res = _fn(*_args["args"], **_args["kwArgs"])`
   pyCode.push(`print(json.dumps(_res, indent=2))`);
 
   const pythonBinArgs = [
+    ...python.args,
     "-c",
     pyCode.join("\n"),
     // Pass in the JSON representation of namedArgs as a command line argument
@@ -116,12 +130,15 @@ _res = _fn(*_args["args"], **_args["kwArgs"])`
   };
 
   const res = await runShellCommandWithTerminalOutput({
-    cmd: langRuntimePath,
+    cmd: python.command,
     args: pythonBinArgs,
     cwd: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
-    env: opts.env,
+    // Environment managers like uv are found on the PATH
+    env: { ...process.env, ...opts.env },
     terminal: opts.terminal,
     newTerminalName: opts.newTerminalName,
+    preserveFocus: opts.preserveFocus,
+    timeoutMs: opts.timeoutMs,
     stdout: appendToResultString,
     stderr: appendToResultString,
   });
@@ -1,4 +1,5 @@
 import * as vscode from "vscode";
+import { getActiveEditorAppFile } from "../app-runtimes";
 import {
   runShellCommandWithTerminalOutput,
   type TerminalWithMyPty,
@@ -29,6 +30,10 @@ import { type JSONifiable } from "./types";
  * @param opts.terminal - Optional VS Code terminal to reuse
  * @param opts.newTerminalName - Name for the new terminal if one needs to be
  * created
+ * @param opts.appFile - The app whose runtime to use, see getAppRuntime().
+ * Defaults to the file in the active editor.
+ * @param opts.preserveFocus - Whether to show the terminal without focusing it
+ * @param opts.timeoutMs - How long the function may run
  *
  * @returns A Promise that resolves to the function's output as a string. If R
  *          is not installed, returns an error message. If the R function
@@ -47,9 +52,15 @@ export async function callRFunction(
     scriptPaths?: string[];
     terminal?: TerminalWithMyPty;
     newTerminalName: string;
+    appFile?: string;
+    preserveFocus?: boolean;
+    timeoutMs?: number;
   }
 ): Promise<RunCommandWithTerminalResult> {
-  const rScriptRuntimePath = await getRBinPath("Rscript");
+  const rScriptRuntimePath = await getRBinPath(
+    "Rscript",
+    opts.appFile ?? getActiveEditorAppFile()
+  );
   if (!rScriptRuntimePath) {
     return {
       cmdResult: {
@@ -96,6 +107,8 @@ export async function callRFunction(
     env: opts.env,
     terminal: opts.terminal,
     newTerminalName: opts.newTerminalName,
+    preserveFocus: opts.preserveFocus,
+    timeoutMs: opts.timeoutMs,
     stdout: appendToResultString,
     stderr: appendToResultString,
   });
@@ -1,7 +1,9 @@
 import * as path from "path";
 import * as vscode from "vscode";
+import { classifyShinyApp, type ShinyAppType } from "../app-type";
 import { isShinyAppFilename } from "../extension";
 import { isPositron } from "../extension-api-utils/extensionHost";
+import { shinyliveFileBytes } from "../shinylive-files";
 import { type DiffError } from "./diff";
 import { langNameToProperName, type LangName } from "./language";
 import { checkPythonEnvironment } from "./project-language";
@@ -30,11 +32,15 @@ export type ProjectSettings = {
   // Current app subdirectory, relative to the workspace root, without leading
   // or trailing slashes. If null, the user has not yet chosen a subdirectory.
   appSubdir: string | null;
+  // The kind of app in the current app file, e.g. Shiny Express or Core. If
+  // null, it isn't known.
+  appType: ShinyAppType | null;
 };
 
 export const projectSettings: ProjectSettings = {
   language: null,
   appSubdir: null,
+  appType: null,
 };
 
 const hasContinuedAfterWorkspaceFolderSuggestion =
@@ -264,10 +270,24 @@ You can also ask me to explain the code in your Shiny app, or to help you with a
     // If it is a Shiny app file, use its directory as the appSubdir.
     // After this point, if the user has not set the appSubdir, the LLM will
     // use a tool call to ask the user which subdirectory to use.
+    const activeFileUri = activeFileReference
+      ? (activeFileReference.value as vscode.Location).uri
+      : undefined;
     if (
+      activeFileUri &&
       activeFileRelativePath &&
-      isShinyAppFilename(activeFileRelativePath, projectSettings.language!)
+      isShinyAppFilename(activeFileUri.fsPath, projectSettings.language!)
     ) {
+      const activeFileContent = (
+        await vscode.workspace.openTextDocument(activeFileUri)
+      ).getText();
+      projectSettings.appType =
+        classifyShinyApp(
+          activeFileUri.fsPath,
+          projectSettings.language!,
+          activeFileContent
+        )?.type ?? null;
+
       const activeFileSubdir = path.dirname(activeFileRelativePath);
       if (projectSettings.appSubdir !== activeFileSubdir) {
         projectSettings.appSubdir = activeFileSubdir;
@@ -657,13 +677,23 @@ async function saveFilesToWorkspace(
 
     // If we have a workspace, save files to disk.
     for (const file of files) {
+      const fileUri = vscode.Uri.joinPath(workspaceFolderUri, file.name);
+
       if (file.type === "binary") {
-        vscode.window.showErrorMessage(
-          `Failed to handle file ${file.name}: Binary files are not supported at this time.`
-        );
-        return false;
+        // Binary files can't be opened as text documents, so they're written
+        // whole, and only if their bytes changed.
+        const contents = shinyliveFileBytes(file);
+        let existing: Uint8Array | undefined;
+        try {
+          existing = await vscode.workspace.fs.readFile(fileUri);
+        } catch {
+          // File does not exist; create it.
+        }
+        if (!existing || !contents.equals(existing)) {
+          workspaceEdit.createFile(fileUri, { overwrite: true, contents });
+        }
+        continue;
       }
-      const fileUri = vscode.Uri.joinPath(workspaceFolderUri, file.name);
 
       try {
         // Try to open existing file. If it exists, then replace its content.
@@ -763,15 +793,19 @@ async function showDiff(
   // variable.
   currentDiffViewFiles = proposedFiles.files;
 
-  // TODO: Error on binary files
+  // Binary files can't be shown in the diff view, but they're saved with the
+  // other files when the changes are applied.
+  const textFiles = proposedFiles.files.filter(
+    (file) => file.type !== "binary"
+  );
 
   try {
     // Add files to the preview provider
-    proposedFilePreviewProvider?.addFiles(proposedFiles.files);
+    proposedFilePreviewProvider?.addFiles(textFiles);
 
     const changes: Array<[vscode.Uri, vscode.Uri, vscode.Uri]> = [];
 
-    for (const proposedFile of proposedFiles.files) {
+    for (const proposedFile of textFiles) {
       const existingUri = vscode.Uri.joinPath(
         workspaceFolderUri,
         proposedFile.name
@@ -854,6 +888,7 @@ async function setAppSubdirDialog(
 
       // Set the selected folder as the app subdirectory
       projectSettings.appSubdir = relativePath;
+      projectSettings.appType = null;
       callback(true);
     } else {
       // User pressed Cancel
@@ -864,6 +899,7 @@ async function setAppSubdirDialog(
     subdir = subdir.replace(/^\/|\/$/g, "");
 
     projectSettings.appSubdir = subdir;
+    projectSettings.appType = null;
     callback(true);
   }
 }
@@ -1,10 +1,17 @@
+import * as fs from "fs";
 import * as path from "path";
 import * as vscode from "vscode";
+import { getActiveEditorAppFile } from "../app-runtimes";
 import {
   runShellCommandWithTerminalOutput,
   type TerminalWithMyPty,
 } from "../extension-api-utils/run-command-terminal-output";
-import { getSelectedPythonInterpreter } from "../run";
+import {
+  findMissingPackages,
+  getPythonRequirementsInstallCommand,
+  installPackages,
+  packageInstallNotice,
+} from "../package-check";
 import { callPythonFunction } from "./call-python";
 import { callRFunction } from "./call-r";
 import type { RunCommandWithTerminalResult } from "./call-types";
@@ -216,7 +223,7 @@ localTools.push({
           min_version: minVersion ?? null,
         },
         {
-          extensionContext: opts.extensionContext,
+          extensionPath: opts.extensionContext.extensionPath,
           env: {},
           terminal: opts.terminal,
           newTerminalName: opts.newTerminalName,
@@ -234,7 +241,7 @@ localTools.push({
           min_version: minVersion ?? null,
         },
         {
-          extensionContext: opts.extensionContext,
+          extensionPath: opts.extensionContext.extensionPath,
           env: {},
           terminal: opts.terminal,
           newTerminalName: opts.newTerminalName,
@@ -256,10 +263,10 @@ localTools.push({
   },
 });
 
-// TODO: Implement for R
 localTools.push({
   name: "shiny-assistant_installRequiredPackagesTool",
-  description: "Installs necessary packages, for Python only.",
+  description:
+    "Installs necessary packages: for Python, the packages in requirements.txt if the workspace has one; otherwise the packages that the app in the active editor uses and that aren't installed.",
   inputSchema: {
     type: "object",
     properties: {
@@ -275,9 +282,6 @@ localTools.push({
     { language }: { language: LangName },
     opts: InvokeOptions
   ): Promise<string> => {
-    let langRuntimePath: string | false;
-    let args: string[] = [];
-
     let resultString = "";
 
     const workspaceFolders = vscode.workspace.workspaceFolders;
@@ -288,26 +292,32 @@ localTools.push({
 
     opts.stream.markdown("\n\nInstalling required packages...\n\n");
 
-    if (language === "r") {
-      return "Installing R packages is not supported yet.";
-    } else if (language === "python") {
-      langRuntimePath = await getSelectedPythonInterpreter();
-      if (!langRuntimePath) {
-        return "No Python interpreter selected";
-      }
-
-      args = ["-m", "pip", "install", "-r", "requirements.txt"];
-    } else {
+    if (
+      language === "r" ||
+      !fs.existsSync(path.join(workspaceDir, "requirements.txt"))
+    ) {
+      return await installMissingAppPackages(language, opts);
+    } else if (language !== "python") {
       return `Invalid language: ${language}`;
     }
 
-    resultString = `Running command: \n\`\`\`\n${langRuntimePath} ${args.join(" ")}\n\`\`\`\n\n`;
+    // Install with the project's environment manager, like other packages
+    const requirementsFile = path.join(workspaceDir, "requirements.txt");
+    const install = await getPythonRequirementsInstallCommand(
+      getActiveEditorAppFile() ?? requirementsFile,
+      requirementsFile
+    );
+    if (!install) {
+      return "No Python interpreter selected";
+    }
+
+    resultString = `Running command: \n\`\`\`\n${install.cmd} ${install.args.join(" ")}\n\`\`\`\n\n`;
     opts.stream.markdown(resultString);
     opts.stream.progress("Running...");
 
     const res = await runShellCommandWithTerminalOutput({
-      cmd: langRuntimePath,
-      args: args,
+      cmd: install.cmd,
+      args: install.args,
       cwd: workspaceDir,
       terminal: opts.terminal,
       newTerminalName: opts.newTerminalName,
@@ -330,45 +340,88 @@ localTools.push({
   },
 });
 
-async function callRToolFunction(
+// Install the packages that the app in the active editor uses, found by
+// scanning its code
+async function installMissingAppPackages(
+  language: LangName,
+  opts: InvokeOptions
+): Promise<string> {
+  const appFile = getActiveEditorAppFile();
+  if (!appFile) {
+    return "No app file is open in the editor.";
+  }
+  const notice = packageInstallNotice(appFile, language);
+  if (notice) {
+    return notice;
+  }
+
+  opts.stream.progress("Checking the app's packages...");
+  const missing = await findMissingPackages(appFile, language, opts);
+  if (!missing) {
+    return "Error checking the app's packages.";
+  }
+  if (missing.length === 0) {
+    return "All the packages that the app uses are installed.";
+  }
+
+  const requirements = missing.map((dependency) => dependency.package);
+  opts.stream.markdown(`Installing ${requirements.join(", ")}...\n\n`);
+  if (!(await installPackages(appFile, language, requirements, opts))) {
+    return `Error installing ${requirements.join(", ")}.`;
+  }
+  return `Installed ${requirements.join(", ")}.`;
+}
+
+/**
+ * Call a function from `assistant-prompts/tools.R`, see callRFunction().
+ */
+export async function callRToolFunction(
   functionName: string,
   namedArgs: Readonly<Record<string, JSONifiable>>,
   opts: Readonly<{
-    extensionContext: vscode.ExtensionContext;
+    extensionPath: string;
     env: Readonly<Record<string, string>>;
     terminal?: TerminalWithMyPty;
     newTerminalName: string;
+    appFile?: string;
+    preserveFocus?: boolean;
+    timeoutMs?: number;
   }>
 ): Promise<RunCommandWithTerminalResult> {
-  const { extensionContext, ...restOpts } = opts;
+  const { extensionPath, ...restOpts } = opts;
 
   const newOpts = {
     ...restOpts,
-    scriptPaths: [
-      path.join(extensionContext.extensionPath, "assistant-prompts", "tools.R"),
-    ],
+    scriptPaths: [path.join(extensionPath, "assistant-prompts", "tools.R")],
   };
 
   return await callRFunction(functionName, namedArgs, newOpts);
 }
 
-async function callPythonToolFunction(
+/**
+ * Call a function from `assistant-prompts/tools.py`, see callPythonFunction().
+ */
+export async function callPythonToolFunction(
   functionName: string,
   args: Readonly<JSONifiable[]>,
   kwArgs: Readonly<Record<string, JSONifiable>>,
   opts: Readonly<{
-    extensionContext: vscode.ExtensionContext;
+    extensionPath: string;
     env: Readonly<Record<string, string>>;
     terminal?: TerminalWithMyPty;
     newTerminalName: string;
+    appFile?: string;
+    python?: { command: string; args: string[] };
+    preserveFocus?: boolean;
+    timeoutMs?: number;
   }>
 ): Promise<RunCommandWithTerminalResult> {
-  const { extensionContext, env, ...restOpts } = opts;
+  const { extensionPath, env, ...restOpts } = opts;
 
   const newEnv = { ...env };
   // Prepend directory with tools.py to PYTHONPATH
   newEnv.PYTHONPATH =
-    path.join(extensionContext.extensionPath, "assistant-prompts") +
+    path.join(extensionPath, "assistant-prompts") +
     (env.PYTHONPATH ? `:${env.PYTHONPATH}` : "");
 
   const newOpts = {
@@ -0,0 +1,320 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { resolveAppEnvironment } from "./app-environment";
+import { getAppRuntime } from "./app-runtimes";
+import { findRenvProject, rRenvActivateCode } from "./environment-managers";
+import { getPositronRunAppApi } from "./extension-api-utils/extensionHost";
+import { getAppPort } from "./port-settings";
+import {
+  pythonAppTargetArgs,
+  pythonAppTargetEnv,
+  pythonProjectDir,
+  resolvePythonAppTarget,
+} from "./python-app-target";
+import {
+  getRAppFrameworkForEntryPoint,
+  rFrameworkAppCode,
+} from "./r-app-frameworks";
+import { appPathForFile, getExtensionPath, rRunApp } from "./run";
+import { formatRArgs, getPythonRunArgs, getRRunAppArgs } from "./run-args";
+import { resolveWorkingDirectory } from "./working-directory";
+
+// =============================================================================
+// Shiny Debug Configurations
+// -----------------------------------------------------------------------------
+// Registers a `shiny` debug type so that Shiny apps can be launched from
+// launch.json. A `shiny` configuration is never debugged directly: the
+// provider below resolves it into a configuration for the underlying debugger
+// of the app's language: a `python` configuration that runs
+// `python -m shiny run`, or an `R-Debugger` configuration for the R Debugger
+// extension (vscDebugger) that runs `rscripts/debugShinyApp.R`. That
+// configuration is launched as a debug session of its own, so that the
+// underlying debugger's provider resolves it too.
+// =============================================================================
+
+export const SHINY_DEBUG_TYPE = "shiny";
+
+const R_DEBUGGER_EXTENSION_ID = "RDebugger.r-debugger";
+const R_DEBUGGER_TYPE = "R-Debugger";
+
+/**
+ * The attributes of a `shiny` launch configuration, as written in launch.json.
+ * See the `debuggers` contribution in package.json for their descriptions.
+ */
+export interface ShinyDebugConfiguration extends vscode.DebugConfiguration {
+  appPath?: string;
+  port?: number;
+  cwd?: string;
+  env?: Record<string, string>;
+  envFile?: string;
+  justMyCode?: boolean;
+  reload?: boolean;
+}
+
+/**
+ * Debug configurations that were resolved from a `shiny` configuration carry
+ * the app path, port and URL path in these properties, so that
+ * `onDidStartDebugSession` can recognize them and open the app preview.
+ */
+const SHINY_APP_PATH_KEY = "shinyAppPath";
+const SHINY_APP_PORT_KEY = "shinyAppPort";
+const SHINY_APP_URL_PATH_KEY = "shinyAppUrlPath";
+
+/**
+ * Returns the app path if the debug configuration was resolved from a `shiny`
+ * configuration, otherwise undefined.
+ */
+export function getShinyDebugAppPath(
+  config: vscode.DebugConfiguration
+): string | undefined {
+  const appPath = config[SHINY_APP_PATH_KEY];
+  return typeof appPath === "string" ? appPath : undefined;
+}
+
+/**
+ * Returns the app port if the debug configuration was resolved from a `shiny`
+ * configuration, otherwise undefined.
+ */
+export function getShinyDebugAppPort(
+  config: vscode.DebugConfiguration
+): number | undefined {
+  const port = config[SHINY_APP_PORT_KEY];
+  return typeof port === "number" ? port : undefined;
+}
+
+/**
+ * Returns the URL path of the app if the debug configuration was resolved from
+ * a `shiny` configuration and sets one, otherwise `/`.
+ */
+export function getShinyDebugAppUrlPath(
+  config: vscode.DebugConfiguration
+): string {
+  const urlPath = config[SHINY_APP_URL_PATH_KEY];
+  return typeof urlPath === "string" ? urlPath : "/";
+}
+
+export class ShinyDebugConfigurationProvider
+  implements vscode.DebugConfigurationProvider
+{
+  provideDebugConfigurations(): vscode.DebugConfiguration[] {
+    return [
+      {
+        type: SHINY_DEBUG_TYPE,
+        request: "launch",
+        name: "Shiny: Debug app",
+        appPath: "${file}",
+      },
+    ];
+  }
+
+  resolveDebugConfiguration(
+    _folder: vscode.WorkspaceFolder | undefined,
+    config: ShinyDebugConfiguration
+  ): vscode.DebugConfiguration {
+    // F5 without a launch.json: debug the active file
+    if (!config.type && !config.request && !config.name) {
+      return {
+        ...this.provideDebugConfigurations()[0],
+        ...config,
+      };
+    }
+    return config;
+  }
+
+  // The port and working directory are picked from the app's path, so they're
+  // resolved once VS Code has substituted the variables in launch.json, like
+  // `${workspaceFolder}` or `${env:APP_DIR}`.
+  async resolveDebugConfigurationWithSubstitutedVariables(
+    folder: vscode.WorkspaceFolder | undefined,
+    config: ShinyDebugConfiguration
+  ): Promise<vscode.DebugConfiguration | undefined> {
+    const appPath =
+      config.appPath || vscode.window.activeTextEditor?.document.uri.fsPath;
+
+    if (!appPath) {
+      vscode.window.showErrorMessage(
+        "Shiny debug configuration: `appPath` is required."
+      );
+      return undefined;
+    }
+
+    let resolved: vscode.DebugConfiguration | undefined;
+    switch (appLanguage(appPath)) {
+      case "python":
+        resolved = await resolvePythonDebugConfiguration(config, appPath);
+        break;
+      case "r":
+        resolved = await resolveRDebugConfiguration(config, appPath);
+        break;
+      default:
+        vscode.window.showErrorMessage(
+          `Shiny debug configuration: \`appPath\` must be a Python or R app, not ${appPath}.`
+        );
+        return undefined;
+    }
+    if (!resolved) {
+      return undefined;
+    }
+
+    // VS Code only lets the provider of a configuration's original type
+    // resolve it after variables are substituted, so the Python extension or
+    // the R Debugger wouldn't resolve a configuration returned from here.
+    // Launch it as a session of its own instead, and abort this one.
+    await vscode.debug.startDebugging(folder, resolved);
+    return undefined;
+  }
+}
+
+async function resolvePythonDebugConfiguration(
+  config: ShinyDebugConfiguration,
+  appPath: string
+): Promise<vscode.DebugConfiguration> {
+  const target = resolvePythonAppTarget(appPath);
+  const port =
+    config.port ?? (await getAppPort("debug", "python", appPath, target.port));
+
+  const justMyCode =
+    config.justMyCode ??
+    vscode.workspace
+      .getConfiguration("shiny.python")
+      .get("debugJustMyCode", true);
+
+  const cwd =
+    config.cwd ||
+    (await resolveWorkingDirectory(appPath, pythonProjectDir(target)));
+
+  const args = ["run", "--port", port.toString()];
+  if (config.reload) {
+    args.push("--reload");
+  }
+  args.push(...getPythonRunArgs(appPath));
+  args.push(...pythonAppTargetArgs(target, !!config.reload));
+
+  const appEnv = await resolveAppEnvironment(appPath);
+
+  return {
+    type: "python",
+    name: config.name,
+    request: "launch",
+    module: "shiny",
+    args,
+    // The Python extension's interpreter is used unless one was selected
+    python: getAppRuntime(appPath, "python"),
+    cwd,
+    env: {
+      ...appEnv,
+      ...config.env,
+      ...pythonAppTargetEnv(target, { ...appEnv, ...config.env }),
+    },
+    envFile: config.envFile,
+    jinja: true,
+    justMyCode,
+    stopOnEntry: false,
+    [SHINY_APP_PATH_KEY]: appPath,
+    [SHINY_APP_PORT_KEY]: port,
+    [SHINY_APP_URL_PATH_KEY]: target.urlPath,
+  };
+}
+
+async function resolveRDebugConfiguration(
+  config: ShinyDebugConfiguration,
+  appPath: string
+): Promise<vscode.DebugConfiguration | undefined> {
+  // In Positron, R apps are debugged in the console with the ark debug
+  // adapter, which positron-run-app attaches to for us. There's no debug
+  // configuration to hand over, so we launch the app ourselves and abort this
+  // launch.
+  if (await getPositronRunAppApi()) {
+    await rRunApp(appPath);
+    return undefined;
+  }
+
+  if (!(await checkForRDebuggerExtension())) {
+    return undefined;
+  }
+
+  const extensionRoot = getExtensionPath();
+  if (!extensionRoot) {
+    return undefined;
+  }
+
+  // The R Debugger starts R itself, from its `rdebugger.rterm.*` settings, and
+  // a launch configuration can't choose another R
+  const appRuntime = getAppRuntime(appPath, "r");
+  if (appRuntime) {
+    vscode.window.showWarningMessage(
+      `The R selected for this app (${appRuntime}) isn't used when ` +
+        "debugging. The R Debugger runs the app with the R from its " +
+        "`rdebugger.rterm` settings."
+    );
+  }
+
+  // Multi-file apps are run from their directory, and the entry points of apps
+  // in R packages and frameworks from the project root, like in rRunApp()
+  const framework = getRAppFrameworkForEntryPoint(appPath);
+  const shinyAppPath = appPathForFile(appPath);
+  const port = config.port ?? (await getAppPort("debug", "r", shinyAppPath));
+
+  const cwd = config.cwd || (await resolveWorkingDirectory(appPath));
+  const renvProject = findRenvProject(appPath);
+
+  return {
+    type: R_DEBUGGER_TYPE,
+    name: config.name,
+    request: "launch",
+    debugMode: "file",
+    file: path.join(extensionRoot, "rscripts", "debugShinyApp.R"),
+    workingDirectory: cwd,
+    allowGlobalDebugging: false,
+    env: {
+      ...(await resolveAppEnvironment(appPath)),
+      ...config.env,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      SHINY_DEBUG_APP_PATH: shinyAppPath,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      SHINY_DEBUG_APP_PORT: port.toString(),
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      SHINY_DEBUG_APP_ARGS: formatRArgs(getRRunAppArgs(appPath)),
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      SHINY_DEBUG_APP_CODE: framework ? rFrameworkAppCode(framework) : "",
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      SHINY_DEBUG_SETUP_CODE: renvProject ? rRenvActivateCode(renvProject) : "",
+    },
+    [SHINY_APP_PATH_KEY]: shinyAppPath,
+    [SHINY_APP_PORT_KEY]: port,
+  };
+}
+
+async function checkForRDebuggerExtension(): Promise<boolean> {
+  if (vscode.extensions.getExtension(R_DEBUGGER_EXTENSION_ID)) {
+    return true;
+  }
+
+  const response = await vscode.window.showErrorMessage(
+    "The R Debugger extension is required to debug Shiny for R apps. " +
+      "Please install it and try again.",
+    "Show R Debugger extension",
+    "Not now"
+  );
+
+  if (response === "Show R Debugger extension") {
+    vscode.commands.executeCommand("extension.open", R_DEBUGGER_EXTENSION_ID);
+  }
+
+  return false;
+}
+
+function appLanguage(appPath: string): "python" | "r" | undefined {
+  if (/\.py$/i.test(appPath)) {
+    return "python";
+  }
+  if (/\.r$/i.test(appPath)) {
+    return "r";
+  }
+  // A directory is a multi-file R app
+  if (fs.existsSync(appPath) && fs.statSync(appPath).isDirectory()) {
+    return "r";
+  }
+  return undefined;
+}
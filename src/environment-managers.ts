@@ -0,0 +1,339 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { runShellCommand } from "./extension-api-utils/runShellCommand";
+
+// =============================================================================
+// Environment Managers
+// -----------------------------------------------------------------------------
+// Projects that are managed by uv, Poetry, Pixi or Conda are run through their
+// tool, e.g. `uv run python -m shiny run app.py`, so that the app gets the
+// project's environment even if the Python extension has another interpreter
+// selected. `shiny.python.runner` chooses the tool, or detects it from the
+// project's lock file (`auto`). R projects with a `renv.lock` are activated
+// before the app runs.
+// =============================================================================
+
+export type PythonRunner =
+  | "auto"
+  | "interpreter"
+  | "uv"
+  | "poetry"
+  | "pixi"
+  | "conda";
+
+type ToolRunner = Exclude<PythonRunner, "auto" | "interpreter">;
+
+/**
+ * A command that runs Python through an environment manager, e.g.
+ * `uv run --project <dir> python`. Python's own arguments go after `args`.
+ */
+export interface PythonRunnerCommand {
+  runner: ToolRunner;
+  /** The project directory. */
+  dir: string;
+  command: string;
+  args: string[];
+}
+
+// The files that mark a project of each tool, in order of preference
+const PYTHON_PROJECT_FILES: [ToolRunner, string[]][] = [
+  ["uv", ["uv.lock"]],
+  ["poetry", ["poetry.lock"]],
+  ["pixi", ["pixi.toml", "pixi.lock"]],
+  ["conda", ["environment.yml", "environment.yaml"]],
+];
+
+/**
+ * Find the environment manager that should run Python for a file, based on the
+ * `shiny.python.runner` setting and the project files next to the file or in
+ * its parent directories (up to the workspace folder).
+ *
+ * @param file The app file, or undefined for the first workspace folder.
+ * @returns The command to run Python with, or undefined to use the selected
+ * Python interpreter.
+ */
+export function getPythonRunnerCommand(
+  file?: string
+): PythonRunnerCommand | undefined {
+  const setting = vscode.workspace
+    .getConfiguration("shiny.python", file ? vscode.Uri.file(file) : undefined)
+    .get<PythonRunner>("runner", "auto");
+  if (setting === "interpreter") {
+    return undefined;
+  }
+
+  const folder = file
+    ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(file))
+    : vscode.workspace.workspaceFolders?.[0];
+  const startDir = file ? path.dirname(file) : folder?.uri.fsPath;
+  if (!startDir) {
+    return undefined;
+  }
+
+  const project = findPythonProject(
+    startDir,
+    folder?.uri.fsPath,
+    setting === "auto" ? undefined : setting
+  );
+
+  if (setting === "auto") {
+    // Only use tools that are installed; otherwise fall back to the
+    // interpreter, like before the project used the tool.
+    if (!project || !findExecutable(project.runner)) {
+      return undefined;
+    }
+    return pythonRunnerCommand(project.runner, project.dir);
+  }
+
+  return pythonRunnerCommand(setting, project?.dir ?? startDir);
+}
+
+function findPythonProject(
+  startDir: string,
+  stopDir: string | undefined,
+  runner: ToolRunner | undefined
+): { runner: ToolRunner; dir: string } | undefined {
+  const candidates = PYTHON_PROJECT_FILES.filter(
+    ([candidate]) => !runner || candidate === runner
+  );
+
+  let dir = startDir;
+  while (true) {
+    for (const [candidate, files] of candidates) {
+      if (files.some((file) => fs.existsSync(path.join(dir, file)))) {
+        return { runner: candidate, dir };
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (dir === stopDir || parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+function pythonRunnerCommand(
+  runner: ToolRunner,
+  dir: string
+): PythonRunnerCommand | undefined {
+  switch (runner) {
+    case "uv":
+      return {
+        runner,
+        dir,
+        command: "uv",
+        args: ["run", "--project", dir, "python"],
+      };
+    case "poetry":
+      return {
+        runner,
+        dir,
+        command: "poetry",
+        args: ["--directory", dir, "run", "python"],
+      };
+    case "pixi": {
+      const manifest = ["pixi.toml", "pyproject.toml"]
+        .map((file) => path.join(dir, file))
+        .find((file) => fs.existsSync(file));
+      return {
+        runner,
+        dir,
+        command: "pixi",
+        args: [
+          "run",
+          ...(manifest ? ["--manifest-path", manifest] : []),
+          "python",
+        ],
+      };
+    }
+    case "conda": {
+      const name = getCondaEnvironmentName(dir);
+      if (!name) {
+        console.warn(
+          `[shiny] No environment name in ${dir}/environment.yml, using the selected Python interpreter`
+        );
+        return undefined;
+      }
+      return {
+        runner,
+        dir,
+        command: "conda",
+        args: ["run", "--no-capture-output", "-n", name, "python"],
+      };
+    }
+  }
+}
+
+/**
+ * The command that adds packages to an environment manager's project, e.g.
+ * `uv add --project <dir> shiny`, so that the project's lock file keeps the
+ * packages. Environments of uv and Pixi may not have pip.
+ *
+ * @param runner The command that runs Python for the project.
+ * @param requirements The packages, e.g. `shiny>=1.0`.
+ * @returns The command, or undefined for Conda, which installs packages with
+ * pip like the selected Python interpreter.
+ */
+export function pythonRunnerAddCommand(
+  runner: PythonRunnerCommand,
+  requirements: string[]
+): { command: string; args: string[] } | undefined {
+  switch (runner.runner) {
+    case "uv":
+      return {
+        command: "uv",
+        args: ["add", "--project", runner.dir, ...requirements],
+      };
+    case "poetry":
+      return {
+        command: "poetry",
+        args: ["--directory", runner.dir, "add", ...requirements],
+      };
+    case "pixi": {
+      // `pixi run --manifest-path <file> python`
+      const manifest = runner.args.slice(1, -1);
+      return {
+        command: "pixi",
+        args: ["add", ...manifest, "--pypi", ...requirements],
+      };
+    }
+    case "conda":
+      return undefined;
+  }
+}
+
+/**
+ * The command that adds the packages of a requirements file to an environment
+ * manager's project, like `pythonRunnerAddCommand()`.
+ *
+ * @param runner The command that runs Python for the project.
+ * @param requirementsFile The absolute path of the requirements file.
+ * @returns The command, or undefined for Poetry and Conda, which can't add a
+ * requirements file and install it with pip instead.
+ */
+export function pythonRunnerAddRequirementsCommand(
+  runner: PythonRunnerCommand,
+  requirementsFile: string
+): { command: string; args: string[] } | undefined {
+  switch (runner.runner) {
+    case "uv":
+      return {
+        command: "uv",
+        args: ["add", "--project", runner.dir, "-r", requirementsFile],
+      };
+    case "pixi":
+      // `pixi add` has no option for a requirements file
+      return pythonRunnerAddCommand(
+        runner,
+        readRequirementsFile(requirementsFile)
+      );
+    case "poetry":
+    case "conda":
+      return undefined;
+  }
+}
+
+// The requirements in a requirements file, without comments and pip options
+function readRequirementsFile(file: string): string[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, "utf8");
+  } catch {
+    return [];
+  }
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.replace(/(^|\s)#.*$/, "").trim())
+    .filter((line) => line && !line.startsWith("-"));
+}
+
+/**
+ * The Python executable in an environment manager's project, for tools that
+ * need a path to Python rather than a command, like Quarto's `QUARTO_PYTHON`.
+ *
+ * @param runner The command that runs Python for the project.
+ * @returns The path, or undefined if the tool couldn't run Python.
+ */
+export async function getPythonRunnerExecutable(
+  runner: PythonRunnerCommand
+): Promise<string | undefined> {
+  // The tool may have to create or sync the environment first
+  const result = await runShellCommand({
+    cmd: runner.command,
+    args: [...runner.args, "-c", "import sys; print(sys.executable)"],
+    cwd: runner.dir,
+    timeoutMs: 60000,
+  });
+  const executable = result.stdout.join("").trim().split(/\r?\n/).at(-1);
+  if (result.status === "error" || !executable) {
+    console.warn(
+      `[shiny] Could not find the Python of ${runner.runner} in ${runner.dir}`,
+      result.stderr.join("")
+    );
+    return undefined;
+  }
+  return executable;
+}
+
+// The `name:` of the environment in `environment.yml`
+function getCondaEnvironmentName(dir: string): string | undefined {
+  for (const file of ["environment.yml", "environment.yaml"]) {
+    try {
+      const content = fs.readFileSync(path.join(dir, file), "utf8");
+      return /^name:\s*["']?([^"'\s#]+)/m.exec(content)?.[1];
+    } catch {
+      // Try the next file
+    }
+  }
+  return undefined;
+}
+
+/** Find an executable on the PATH. */
+function findExecutable(name: string): string | undefined {
+  const extensions =
+    process.platform === "win32" ? [".exe", ".cmd", ".bat"] : [""];
+  for (const dir of (process.env.PATH ?? "").split(path.delimiter)) {
+    for (const extension of extensions) {
+      const file = path.join(dir, name + extension);
+      if (dir && fs.existsSync(file)) {
+        return file;
+      }
+    }
+  }
+  return undefined;
+}
+
+/* renv ------------------------------------------------------------------ */
+
+/**
+ * The renv project that an R app file is in: the nearest directory with a
+ * `renv.lock`.
+ */
+export function findRenvProject(appFile: string): string | undefined {
+  let dir = path.dirname(appFile);
+  while (true) {
+    if (fs.existsSync(path.join(dir, "renv.lock"))) {
+      return dir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * R code that activates a renv project, like the project's `.Rprofile` does
+ * when R starts in the project directory. This is needed because apps may run
+ * from another directory.
+ */
+export function rRenvActivateCode(projectDir: string): string {
+  return (
+    `local({ owd <- setwd(${JSON.stringify(projectDir)}); on.exit(setwd(owd)); ` +
+    'if (file.exists("renv/activate.R")) source("renv/activate.R") ' +
+    "else renv::load() })"
+  );
+}
@@ -7,6 +7,65 @@ import * as vscode from "vscode";
 
 import { runShellCommand } from "./runShellCommand";
 
+/**
+ * A way of turning the URL of a server on a local port into a URL that the
+ * user's browser can reach, in one kind of (possibly remote) environment.
+ */
+export interface RemoteUrlStrategy {
+  name: string;
+  /** Whether the extension is running in this environment. */
+  isActive(): boolean;
+  /** Full URL to access the local server on `local_port`. */
+  getUrl(local_port: number): Promise<string>;
+  /**
+   * Whether app previews need to be opened through a second port that
+   * redirects to the app. In Codespaces, this makes the browser go through the
+   * port forwarding auth flow for that port too, which the app's WebSocket
+   * connections to it can't do themselves.
+   */
+  needsRedirectPort: boolean;
+}
+
+const workbenchStrategy: RemoteUrlStrategy = {
+  name: "Posit Workbench",
+  isActive: getInPositWorkbench,
+  getUrl: getForwardedWorkbenchUrl,
+  needsRedirectPort: false,
+};
+
+const codespacesStrategy: RemoteUrlStrategy = {
+  name: "GitHub Codespaces",
+  isActive: () => process.env["CODESPACES"] === "true",
+  // asExternalUri also makes sure that the port is forwarded
+  getUrl: getExternalUrl,
+  needsRedirectPort: true,
+};
+
+const externalUriStrategy: RemoteUrlStrategy = {
+  name: "VS Code",
+  isActive: () => true,
+  getUrl: getExternalUrl,
+  needsRedirectPort: false,
+};
+
+// In order of precedence; the last one always applies
+const REMOTE_URL_STRATEGIES: RemoteUrlStrategy[] = [
+  workbenchStrategy,
+  codespacesStrategy,
+  externalUriStrategy,
+];
+
+/**
+ * Get the strategy for making local servers reachable in the environment the
+ * extension is running in.
+ */
+export function getRemoteUrlStrategy(): RemoteUrlStrategy {
+  return (
+    REMOTE_URL_STRATEGIES.find((strategy) => strategy.isActive()) ??
+    externalUriStrategy
+  );
+}
+
 /**
  * Get a safe for hosted versions of vscode url for local server running on a
  * given port
@@ -14,9 +73,10 @@ import { runShellCommand } from "./runShellCommand";
  * @returns Full url to access the proxied local server.
  */
 export async function getRemoteSafeUrl(local_port: number): Promise<string> {
-  if (getInPositWorkbench()) {
-    return await getForwardedWorkbenchUrl(local_port);
-  }
+  return await getRemoteUrlStrategy().getUrl(local_port);
+}
+
+async function getExternalUrl(local_port: number): Promise<string> {
   const local_uri = vscode.Uri.parse(`http://localhost:${local_port}`);
   return (await vscode.env.asExternalUri(local_uri)).toString();
 }
@@ -12,6 +12,7 @@ import {
 export type RunShellCommandWithTerminalOutputOptions = CommandExecOptions & {
   newTerminalName: string;
   terminal?: TerminalWithMyPty;
+  preserveFocus?: boolean;
 };
 
 export async function runShellCommandWithTerminalOutput({
@@ -21,6 +22,7 @@ export async function runShellCommandWithTerminalOutput({
   env,
   terminal, // If defined, a Terminal to use instead of creating a new one
   newTerminalName, // If `terminal` was not passed in, create a Terminal with this name
+  preserveFocus = false, // Show the terminal without taking the focus
   stdout,
   stderr,
   timeoutMs = 1500,
@@ -53,7 +55,7 @@ export async function runShellCommandWithTerminalOutput({
     pty = terminal.creationOptions.pty;
   }
 
-  terminal.show();
+  terminal.show(preserveFocus);
 
   // Don't continue until the pseudoterminal is opened; otherwise we could
   // write to the pty before it's ready and that output will be lost.
@@ -1,34 +1,88 @@
 import * as path from "path";
 import * as vscode from "vscode";
+import { registerAppDiagnostics } from "./app-diagnostics";
+import {
+  isAlwaysAppFile,
+  matchesAppFilePattern,
+  onDidChangeAppFilePatterns,
+  registerAppFilePatterns,
+} from "./app-file-patterns";
+import { registerAppRuntimes } from "./app-runtimes";
+import { classifyShinyApp, type ShinyAppClassification } from "./app-type";
+import { registerShinyAppsView } from "./apps-tree-view";
 import { activateAssistant, deactivateAssistant } from "./assistant/extension";
+import {
+  SHINY_DEBUG_TYPE,
+  ShinyDebugConfigurationProvider,
+} from "./debug-configuration";
 import { handlePositShinyUri } from "./extension-onUri";
+import {
+  getInteractiveDocument,
+  isInteractiveDocumentFilename,
+} from "./interactive-documents";
+import { installMissingPackages } from "./package-check";
+import {
+  isRAppFrameworkEntryPoint,
+  registerRAppFrameworks,
+} from "./r-app-frameworks";
+import { stopAllRedirectServers } from "./redirect-server";
 import {
   onDidStartDebugSession,
   pyDebugApp,
   pyRunApp,
-  registerTerminalCloseHandler,
+  rDebugApp,
+  restartApp,
   rRunApp,
-  setAppRunningStateChangeCallback,
+  runInteractiveDocument,
   stopApp,
 } from "./run";
+import {
+  registerDebugSessionTerminateHandler,
+  registerTerminalCloseHandler,
+  registerTerminalShellExecutionHandler,
+  setAppRunningStateChangeCallback,
+} from "./running-apps";
 import { setRunFromOverride } from "./set-run-from-override-command";
 import {
+  registerShinyliveAppFiles,
   shinyliveCreateFromActiveEditor,
   shinyliveCreateFromExplorer,
+  shinyliveCreateQuartoChunk,
+  shinyliveExportSite,
+  shinyliveSaveAppFromQuartoChunk,
   shinyliveSaveAppFromUrl,
 } from "./shinylive";
+import { registerStatusBar } from "./status-bar";
 
 export async function activate(context: vscode.ExtensionContext) {
   console.log("Activating Shiny extension");
   context.subscriptions.push(
-    vscode.commands.registerCommand("shiny.python.runApp", pyRunApp),
-    vscode.commands.registerCommand("shiny.python.debugApp", pyDebugApp),
-    vscode.commands.registerCommand("shiny.r.runApp", rRunApp),
+    // Menus pass extra arguments, so only the target is passed on
+    vscode.commands.registerCommand("shiny.python.runApp", (target) =>
+      pyRunApp(target)
+    ),
+    vscode.commands.registerCommand("shiny.python.debugApp", (target) =>
+      pyDebugApp(target)
+    ),
+    vscode.commands.registerCommand("shiny.r.runApp", (target) =>
+      rRunApp(target)
+    ),
+    vscode.commands.registerCommand("shiny.r.debugApp", (target) =>
+      rDebugApp(target)
+    ),
+    vscode.commands.registerCommand("shiny.restartApp", () => restartApp()),
+    vscode.commands.registerCommand("shiny.runDocument", (target) =>
+      runInteractiveDocument(target)
+    ),
     vscode.commands.registerCommand("shiny.stopApp", stopApp),
     vscode.commands.registerCommand(
       "shiny.setRunFromOverride",
       setRunFromOverride
     ),
+    vscode.commands.registerCommand(
+      "shiny.installMissingPackages",
+      (uri?: vscode.Uri) => installMissingPackages(uri)
+    ),
     vscode.commands.registerCommand(
       "shiny.shinylive.createFromActiveEditor",
       shinyliveCreateFromActiveEditor
@@ -41,14 +95,40 @@ export async function activate(context: vscode.ExtensionContext) {
       "shiny.shinylive.createFromExplorer",
       shinyliveCreateFromExplorer
     ),
+    vscode.commands.registerCommand(
+      "shiny.shinylive.exportSite",
+      shinyliveExportSite
+    ),
+    vscode.commands.registerCommand(
+      "shiny.shinylive.createQuartoChunk",
+      shinyliveCreateQuartoChunk
+    ),
+    vscode.commands.registerCommand(
+      "shiny.shinylive.saveAppFromQuartoChunk",
+      shinyliveSaveAppFromQuartoChunk
+    ),
+    vscode.debug.registerDebugConfigurationProvider(
+      SHINY_DEBUG_TYPE,
+      new ShinyDebugConfigurationProvider()
+    ),
     vscode.window.registerUriHandler({
       async handleUri(uri: vscode.Uri): Promise<void> {
         await handlePositShinyUri(uri);
       },
     }),
-    registerTerminalCloseHandler()
+    registerShinyliveAppFiles(),
+    registerTerminalCloseHandler(),
+    registerDebugSessionTerminateHandler(),
+    registerTerminalShellExecutionHandler(),
+    registerAppDiagnostics(),
+    registerRAppFrameworks()
   );
 
+  registerAppFilePatterns(context);
+  registerAppRuntimes(context);
+  registerShinyAppsView(context);
+  registerStatusBar(context);
+
   // Track app running state for stop button visibility.
   // Note that in Positron, the Viewer pane also has its own stop button via
   // PreviewSource, which is independent of this.
@@ -57,12 +137,19 @@ export async function activate(context: vscode.ExtensionContext) {
     vscode.commands.executeCommand("setContext", "shiny.appRunning", running);
   });
   vscode.commands.executeCommand("setContext", "shiny.appRunning", false);
+  vscode.commands.executeCommand("setContext", "shiny.canRestartApp", false);
 
   activateAssistant(context);
 
   const throttledUpdateContext = new Throttler(2000, () => {
-    updateContext("python");
-    updateContext("r");
+    const pyApp = updateContext("python");
+    const rApp = updateContext("r");
+    updateDocumentContext();
+    vscode.commands.executeCommand(
+      "setContext",
+      "shiny.appType",
+      (pyApp ?? rApp)?.type
+    );
   });
   context.subscriptions.push(throttledUpdateContext);
 
@@ -73,6 +160,13 @@ export async function activate(context: vscode.ExtensionContext) {
     )
   );
 
+  // When the app file patterns change, immediately update.
+  context.subscriptions.push(
+    onDidChangeAppFilePatterns(
+      throttledUpdateContext.immediateCall.bind(throttledUpdateContext)
+    )
+  );
+
   // When text changes in the active text editor's document, update, but not too
   // often. (Because we scan the document looking for "shiny"--maybe this can be
   // expensive)
@@ -91,25 +185,62 @@ export async function activate(context: vscode.ExtensionContext) {
 // this method is called when your extension is deactivated
 export function deactivate() {
   deactivateAssistant();
+  return stopAllRedirectServers();
 }
 
-function updateContext(language: "python" | "r"): boolean {
+/**
+ * Set the `shiny.<language>.active` context key, which is true when the active
+ * editor holds a Shiny app in that language.
+ *
+ * @returns The classification of the app in the active editor, if it is one.
+ */
+function updateContext(
+  language: "python" | "r"
+): ShinyAppClassification | undefined {
   const shinyContext = `shiny.${language}.active`;
   const editor = vscode.window.activeTextEditor;
   if (!editor) {
     vscode.commands.executeCommand("setContext", shinyContext, false);
-    return false;
+    return undefined;
   }
 
-  const active =
+  const isAppFile =
     editor.document.languageId === language &&
     !editor.document.isUntitled &&
     !!editor.document.fileName &&
-    isShinyAppFilename(editor.document.fileName, language) &&
-    editor.document.getText().search(/\bshiny\b/) >= 0;
+    isShinyAppFilename(editor.document.fileName, language);
+  const app = isAppFile
+    ? classifyShinyApp(
+        editor.document.fileName,
+        language,
+        editor.document.getText()
+      )
+    : undefined;
+  // Files that the user marked as apps count even if they don't look like one,
+  // and so do framework entry points like golem's `dev/run_dev.R`
+  const active =
+    !!app ||
+    (isAppFile &&
+      (isAlwaysAppFile(editor.document.fileName) ||
+        isRAppFrameworkEntryPoint(editor.document.fileName)));
 
   vscode.commands.executeCommand("setContext", shinyContext, active);
-  return active;
+  return app;
+}
+
+/**
+ * Set the `shiny.document.active` context key, which is true when the active
+ * editor holds an interactive Quarto or R Markdown document.
+ */
+function updateDocumentContext(): void {
+  const document = vscode.window.activeTextEditor?.document;
+  const active =
+    !!document &&
+    !document.isUntitled &&
+    isInteractiveDocumentFilename(document.fileName) &&
+    !!getInteractiveDocument(document.fileName, document.getText());
+
+  vscode.commands.executeCommand("setContext", "shiny.document.active", active);
 }
 
 class Throttler {
@@ -176,17 +307,18 @@ class Throttler {
  * Determines whether a file is a Shiny application entry point based on its
  * filename.
  *
- * This function checks if a given filename follows the naming conventions for
- * Shiny application entry points in either Python or R. It validates against
- * several patterns:
+ * A `.py` or `.R` file is an app file if:
  *
- * - Direct match: `app.py` or `app.R`
- * - Prefixed patterns: `app-*.py`, `app_*.py`, `app-*.R`, or `app_*.R`
- * - Suffixed patterns: `*-app.py`, `*_app.py`, `*-app.R`, or `*_app.R`
- * - For R files only: additional R-specific Shiny app patterns via
- *   `isShinyAppRPart`
+ * - It matches one of the `shiny.appFilePatterns` globs, which by default
+ *   accept `app.py`, `app-*.py`, `app_*.py`, `*-app.py` and `*_app.py` (and
+ *   the same for `.R`)
+ * - The user marked it with "Always Treat as Shiny App"
+ * - For R files only: it is part of a multi-file app, see `isShinyAppRPart`,
+ *   or it starts an app in an R package or framework like golem or rhino, see
+ *   `isRAppFrameworkEntryPoint` (absolute paths only)
  *
- * @param filename - The path or filename to check
+ * @param filename - The path or filename to check, either absolute or relative
+ * to the workspace folder
  * @param language - The programming language, either "python" or "r"
  * @returns `true` if the filename matches a Shiny app pattern, `false`
  * otherwise
@@ -195,8 +327,6 @@ export function isShinyAppFilename(
   filename: string,
   language: string
 ): boolean {
-  filename = path.basename(filename);
-
   const extension = { python: "py", r: "R" }[language];
 
   // Only .py or .R files
@@ -204,29 +334,14 @@ export function isShinyAppFilename(
     return false;
   }
 
-  // Accepted patterns:
-  // app.py|R
-  const rxApp = new RegExp(`^app\\.${extension}$`, "i");
-  // app-*.py|R
-  // app_*.py|R
-  const rxAppDash = new RegExp(`^app[-_].+\\.${extension}$`, "i");
-  // *-app.py|R
-  // *_app.py|R
-  const rxDashApp = new RegExp(`[-_]app\\.${extension}$`, "i");
-
-  if (rxApp.test(filename)) {
-    return true;
-  } else if (rxAppDash.test(filename)) {
-    return true;
-  } else if (rxDashApp.test(filename)) {
+  if (
+    language === "r" &&
+    (isShinyAppRPart(filename) || isRAppFrameworkEntryPoint(filename))
+  ) {
     return true;
   }
 
-  if (language === "r") {
-    return isShinyAppRPart(filename);
-  }
-
-  return false;
+  return matchesAppFilePattern(filename) || isAlwaysAppFile(filename);
 }
 
 export function isShinyAppRPart(filename: string): boolean {
@@ -0,0 +1,113 @@
+// =============================================================================
+// Interactive Documents
+// -----------------------------------------------------------------------------
+// Quarto documents with `server: shiny` and R Markdown documents with
+// `runtime: shiny` (or `shiny_prerendered`) are Shiny apps too. They are run
+// with `quarto serve` and `rmarkdown::run()`, respectively, instead of
+// `shiny run` and `shiny::runApp()`.
+// =============================================================================
+
+export interface InteractiveDocument {
+  /** How the document is served: `quarto serve` or `rmarkdown::run()`. */
+  kind: "quarto" | "rmarkdown";
+  /** The language of the document's code, which runs the Shiny server. */
+  language: "python" | "r";
+}
+
+// YAML front matter at the very start of the document, ending with `---` or
+// `...`
+const FRONT_MATTER =
+  /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+// `server: shiny`, or a `server:` map (see isQuartoShinyServer())
+const QUARTO_SERVER = /^server:[ \t]*(.*?)[ \t]*(?:#.*)?$/m;
+const SHINY_VALUE = /^["']?shiny["']?$/;
+// `runtime: shiny` or `runtime: shiny_prerendered`
+const RMARKDOWN_SHINY_RUNTIME =
+  /^runtime:[ \t]*["']?shiny(?:_prerendered)?["']?[ \t]*$/m;
+// `engine: jupyter` or a `jupyter:` kernel in the front matter
+const QUARTO_JUPYTER_ENGINE = /^(?:engine:[ \t]*["']?jupyter\b|jupyter:)/m;
+// A ```{python} code chunk
+const PYTHON_CHUNK = /^```\{python\b/m;
+
+/**
+ * Whether a file is an interactive document, based on its extension and front
+ * matter.
+ *
+ * @param filename The document file.
+ * @param content The source of the document.
+ * @returns How to run the document, or undefined if it isn't an interactive
+ * document.
+ */
+export function getInteractiveDocument(
+  filename: string,
+  content: string
+): InteractiveDocument | undefined {
+  const frontMatter = FRONT_MATTER.exec(content)?.[1];
+  if (frontMatter === undefined) {
+    return undefined;
+  }
+
+  if (/\.qmd$/i.test(filename) && isQuartoShinyServer(frontMatter)) {
+    const isPython =
+      QUARTO_JUPYTER_ENGINE.test(frontMatter) || PYTHON_CHUNK.test(content);
+    return { kind: "quarto", language: isPython ? "python" : "r" };
+  }
+
+  if (/\.rmd$/i.test(filename) && RMARKDOWN_SHINY_RUNTIME.test(frontMatter)) {
+    return { kind: "rmarkdown", language: "r" };
+  }
+
+  return undefined;
+}
+
+// Whether the front matter has `server: shiny`, or a `server:` map with
+// `type: shiny` among its keys, either indented below it or in a flow map like
+// `server: {type: shiny}`
+function isQuartoShinyServer(frontMatter: string): boolean {
+  const server = QUARTO_SERVER.exec(frontMatter);
+  if (!server) {
+    return false;
+  }
+  const value = server[1];
+  if (SHINY_VALUE.test(value)) {
+    return true;
+  }
+
+  const flowMap = /^\{(.*)\}$/.exec(value);
+  if (flowMap) {
+    return flowMap[1].split(",").some((entry) => isShinyType(entry.trim()));
+  }
+  if (value !== "") {
+    return false;
+  }
+
+  // The keys of the map are the lines indented like its first key, up to the
+  // next top-level key
+  const lines = frontMatter
+    .slice(server.index + server[0].length)
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "" && !line.trim().startsWith("#"));
+  const indent = /^[ \t]+/.exec(lines[0] ?? "")?.[0];
+  if (!indent) {
+    return false;
+  }
+  for (const line of lines) {
+    if (!line.startsWith(indent)) {
+      break;
+    }
+    if (!/^[ \t]/.test(line.slice(indent.length)) && isShinyType(line.trim())) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function isShinyType(entry: string): boolean {
+  const type = /^type:[ \t]*(.*?)[ \t]*(?:#.*)?$/.exec(entry);
+  return !!type && SHINY_VALUE.test(type[1]);
+}
+
+/** Whether a file could be an interactive document, based on its extension. */
+export function isInteractiveDocumentFilename(filename: string): boolean {
+  return /\.(qmd|rmd)$/i.test(filename);
+}
@@ -2,14 +2,24 @@ import * as http from "http";
 import type { AddressInfo } from "net";
 import * as net from "net";
 import * as vscode from "vscode";
+import { appTypeLabel } from "./app-type";
 import {
   getExtensionHostPreview,
   getPreviewSourceTypeTerminal,
   type PreviewSource,
 } from "./extension-api-utils/extensionHost";
-import { getRemoteSafeUrl } from "./extension-api-utils/getRemoteSafeUrl";
+import {
+  getRemoteSafeUrl,
+  getRemoteUrlStrategy,
+} from "./extension-api-utils/getRemoteSafeUrl";
 import type { PreviewMode } from "./positron-run-app";
 import { retryUntilTimeout } from "./retry-utils";
+import {
+  getLastOutputLines,
+  getRunningApps,
+  onDidChangeRunningApps,
+  type RunningApp,
+} from "./running-apps";
 
 /**
  * Tests if a port is open on a host, by trying to connect to it with a TCP
@@ -44,6 +54,147 @@ async function isPortOpen(
   });
 }
 
+// Shiny pages always load Shiny's JavaScript, e.g. `shiny-1.9.1/shiny.min.js`
+const SHINY_PAGE_MARKER = /\bshiny(?:\.min)?\.js\b/;
+
+// Only this much of the page is searched for the marker
+const MAX_PROBE_BODY_LENGTH = 256 * 1024;
+
+// How long an app has to answer HTTP requests before it counts as ready when
+// its page doesn't load Shiny's JavaScript
+const PROBE_GRACE_PERIOD = 2000;
+
+/** Where and how to check that a Shiny app answers, see `shinyAppProbe()`. */
+export interface ShinyAppProbeOptions {
+  /** The URL path of the app, e.g. where a Starlette app mounts it. */
+  path?: string;
+  /** Ports that answer with a redirect to the app. */
+  redirectPorts?: number[];
+  /** The remote-safe URLs that those ports redirect to. */
+  redirectUrls?: string[];
+  /** How long the app has to answer without Shiny's JavaScript. */
+  gracePeriod?: number;
+}
+
+/**
+ * Requests a Shiny app's page on a local port. Resolves to `"shiny"` if the
+ * page loads Shiny's JavaScript, and to `"http"` for any other response.
+ *
+ * Shiny for Python's autoreload port, and the extension's redirect server for
+ * R apps, answer with a redirect to the app, so a redirect to one of
+ * `redirectPorts` counts as a Shiny page as well. In remote environments the
+ * redirect goes to the app's remote-safe URL instead, so those are passed as
+ * `redirectUrls`.
+ *
+ * Like `isPortOpen()`, this rejects when nothing answers, so that it can be
+ * retried with `retryUntilTimeout()`.
+ */
+async function requestShinyAppPage(
+  port: number,
+  { path = "/", redirectPorts = [], redirectUrls = [] }: ShinyAppProbeOptions,
+  timeout: number = 2000
+): Promise<"shiny" | "http"> {
+  return new Promise<"shiny" | "http">((resolve, reject) => {
+    const req = http.get({ host: "127.0.0.1", port, path, timeout }, (res) => {
+      const status = res.statusCode ?? 0;
+
+      if (status >= 300 && status < 400) {
+        res.resume();
+        const location = res.headers.location ?? "";
+        const match = /^\w+:\/\/[^/]*:(\d+)/.exec(location);
+        resolve(
+          (match && redirectPorts.includes(Number(match[1]))) ||
+            redirectUrls.some((url) => location.startsWith(url))
+            ? "shiny"
+            : "http"
+        );
+        return;
+      }
+
+      if (status !== 200) {
+        res.resume();
+        resolve("http");
+        return;
+      }
+
+      let body = "";
+      res.setEncoding("utf8");
+      res.on("data", (chunk: string) => {
+        body += chunk;
+        if (SHINY_PAGE_MARKER.test(body)) {
+          resolve("shiny");
+          res.destroy();
+        } else if (body.length > MAX_PROBE_BODY_LENGTH) {
+          resolve("http");
+          res.destroy();
+        }
+      });
+      res.on("end", () => {
+        resolve("http");
+      });
+      res.on("error", reject);
+    });
+
+    req.on("timeout", () => {
+      req.destroy(new Error("Timed out"));
+    });
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Creates a check that a Shiny app is serving on a local port, to retry with
+ * `retryUntilTimeout()`. The app counts as ready as soon as its page loads
+ * Shiny's JavaScript. Apps can serve other pages at their path, e.g. a
+ * Starlette app that mounts the Shiny app elsewhere, so any other response
+ * counts too once the app has kept answering for a grace period. Unlike
+ * `isPortOpen()`, this fails while the app is still starting up (e.g. uvicorn
+ * is listening, but the app module is still being imported).
+ */
+function shinyAppProbe(
+  port: number,
+  options: ShinyAppProbeOptions = {}
+): () => Promise<true> {
+  const gracePeriod = options.gracePeriod ?? PROBE_GRACE_PERIOD;
+  let firstResponseTime: number | undefined;
+
+  return async () => {
+    const response = await requestShinyAppPage(port, options);
+    if (response === "shiny") {
+      return true;
+    }
+    firstResponseTime ??= Date.now();
+    if (Date.now() - firstResponseTime >= gracePeriod) {
+      return true;
+    }
+    throw new Error("Response is not a Shiny app yet");
+  };
+}
+
+/**
+ * Waits until a Shiny app answers HTTP requests on a local port (see
+ * `shinyAppProbe()`), retrying every `retryIntervalMs`.
+ *
+ * @param port - The port number of the app
+ * @param timeout - Maximum time in milliseconds to wait for the app
+ * @param options - Where the app is served, see `ShinyAppProbeOptions`
+ * @returns A promise that resolves to true if the app responds within the
+ * timeout period, false otherwise
+ */
+export async function waitUntilShinyAppIsResponding(
+  port: number,
+  timeout: number,
+  options: ShinyAppProbeOptions = {},
+  retryIntervalMs: number = 250
+): Promise<boolean> {
+  const responding = await retryUntilTimeout(
+    timeout,
+    shinyAppProbe(port, options),
+    retryIntervalMs
+  );
+  return responding === true;
+}
+
 /**
  * Repeatedly attempts to listen on a specified port until it becomes available
  * or times out. Retries every 80ms until the timeout.
@@ -113,6 +264,50 @@ async function getTerminalClosedPromise(
   });
 }
 
+/**
+ * Resolves with the app running in `terminal` once it is marked as crashed, or
+ * as exited with an unknown exit status, in the running app registry. Dispose
+ * the returned subscription once the result isn't needed anymore.
+ */
+function getAppCrashedPromise(terminal: vscode.Terminal): {
+  crashed: Promise<RunningApp>;
+  subscription: vscode.Disposable;
+} {
+  let subscription: vscode.Disposable = new vscode.Disposable(() => {});
+  const crashed = new Promise<RunningApp>((resolve) => {
+    const check = () => {
+      const app = getRunningApps().find((x) => x.terminal === terminal);
+      if (app?.status === "crashed" || app?.status === "exited") {
+        resolve(app);
+      }
+    };
+    subscription = onDidChangeRunningApps(check);
+    // The app may have crashed already
+    check();
+  });
+  return { crashed, subscription };
+}
+
+/**
+ * Lets the user know that an app crashed before it started to respond, with
+ * the last lines of its output (which usually hold the error).
+ */
+async function showAppCrashedError(app: RunningApp): Promise<void> {
+  const exitCode =
+    app.exitCode === undefined ? "" : ` (exit code ${app.exitCode})`;
+  const lastLines = getLastOutputLines(app, 3).join("\n");
+  const ended = app.status === "exited" ? "exited" : "crashed";
+
+  const action = await vscode.window.showErrorMessage(
+    `${appTypeLabel(app.appType)} app ${ended} during startup${exitCode}.` +
+      (lastLines ? `\n\n${lastLines}` : ""),
+    "Show Shiny process"
+  );
+  if (action === "Show Shiny process") {
+    app.terminal?.show();
+  }
+}
+
 /**
  * Reads `shiny.timeoutOpenBrowser`, which is provided in seconds.
  * @returns Open browser timeout in milliseconds.
@@ -123,32 +318,47 @@ export function configShinyTimeoutOpenBrowser(): number {
 }
 
 /**
- * Opens a browser for the specified port, once that port is open. Handles
- * translating http://localhost:<port> into a proxy URL, if necessary.
+ * Opens a browser for the specified port, once the Shiny app answers on that
+ * port. Handles translating http://localhost:<port> into a proxy URL, if
+ * necessary. If the app crashes before it answers, the user is shown the error
+ * instead.
  * @param port The port to open the browser for.
  * @param additionalPorts Additional ports to wait for before opening the
- * browser.
+ * browser. These only need to accept TCP connections.
  * @param timeout Milliseconds to wait for the port to open before letting the
  * user know something is wrong and asking if they'd like to check on the Shiny
  * process or keep waiting. We start with a low 10s (or the shiny.timeoutOpenBrowser option)
  *  wait because some apps might fail quickly, but we increase to 30s
  *  if the user chooses to keep waiting.
+ * @param urlPath The URL path of the app on the port, which is checked and
+ * opened.
  */
 export async function openBrowserWhenReady(
   port: number,
   additionalPorts: number[] = [],
   terminal?: vscode.Terminal,
-  timeout: number = configShinyTimeoutOpenBrowser()
+  timeout: number = configShinyTimeoutOpenBrowser(),
+  urlPath: string = "/"
 ): Promise<void> {
   if (configShinyPreviewTypeForTerminal() === "none") {
     // No need to wait for Shiny app to start or open the browser
     return;
   }
 
+  // Where redirects to the additional ports go in remote environments
+  const redirectUrls = getRemoteUrlStrategy().needsRedirectPort
+    ? await Promise.all(additionalPorts.map(getRemoteSafeUrl))
+    : [];
+
+  const app = terminal
+    ? getRunningApps().find((x) => x.terminal === terminal)
+    : undefined;
+  const appLabel = `${appTypeLabel(app?.appType)} app`;
+
   const portsOpenResult = await vscode.window.withProgress(
     {
       location: vscode.ProgressLocation.Notification,
-      title: "Waiting for Shiny app to start...",
+      title: `Waiting for ${appLabel} to start...`,
       cancellable: false,
     },
     async (progress: vscode.Progress<{ increment: number }>) => {
@@ -161,25 +371,44 @@ export async function openBrowserWhenReady(
         lastProgressReport = now;
       };
 
-      const portsOpen = [port, ...additionalPorts].map((p) =>
+      const isAppResponding = shinyAppProbe(port, {
+        path: urlPath,
+        redirectPorts: additionalPorts,
+        redirectUrls,
+      });
+      const portsOpen = [
         retryUntilTimeout(timeout, () => {
           reportProgress();
-          return isPortOpen("127.0.0.1", p);
-        })
-      );
+          return isAppResponding();
+        }),
+        ...additionalPorts.map((p) =>
+          retryUntilTimeout(timeout, () => isPortOpen("127.0.0.1", p))
+        ),
+      ];
 
       const portsOpenPromise = Promise.all(portsOpen);
       if (!terminal) {
         return portsOpenPromise;
-      } else {
-        return Promise.race([
+      }
+
+      const { crashed, subscription } = getAppCrashedPromise(terminal);
+      try {
+        return await Promise.race([
           portsOpenPromise,
           getTerminalClosedPromise(terminal),
+          crashed,
         ]);
+      } finally {
+        subscription.dispose();
       }
     }
   );
 
+  if (isRunningApp(portsOpenResult)) {
+    await showAppCrashedError(portsOpenResult);
+    return;
+  }
+
   if (!Array.isArray(portsOpenResult) || terminal?.exitStatus !== undefined) {
     console.warn("[shiny] Terminal has been closed, will not launch browser");
     return;
@@ -188,7 +417,7 @@ export async function openBrowserWhenReady(
   if (portsOpenResult.filter((p) => !p).length > 0) {
     const timeoutStr = Math.floor(timeout / 1000);
     const action = await vscode.window.showErrorMessage(
-      `Shiny app took longer than ${timeoutStr}s to start so we have not opened the preview.`,
+      `${appLabel} took longer than ${timeoutStr}s to start so we have not opened the preview.`,
       terminal ? "Show Shiny process" : "",
       "Keep waiting"
     );
@@ -199,7 +428,13 @@ export async function openBrowserWhenReady(
         );
         return;
       }
-      return openBrowserWhenReady(port, additionalPorts, terminal, 30000);
+      return openBrowserWhenReady(
+        port,
+        additionalPorts,
+        terminal,
+        30000,
+        urlPath
+      );
     }
     if (action === "Show Shiny process") {
       terminal?.show();
@@ -210,10 +445,26 @@ export async function openBrowserWhenReady(
     return;
   }
 
-  const previewUrl = await getRemoteSafeUrl(port);
+  const previewUrl = appUrl(await getRemoteSafeUrl(port), urlPath);
   await openBrowser(previewUrl, terminal);
 }
 
+/**
+ * The URL of an app at `urlPath`, relative to the URL of its port (which may
+ * have a path of its own, e.g. behind a proxy).
+ */
+function appUrl(portUrl: string, urlPath: string): string {
+  const relativePath = urlPath.replace(/^\/+/, "");
+  if (!relativePath) {
+    return portUrl;
+  }
+  return portUrl.replace(/\/*$/, "/") + relativePath;
+}
+
+function isRunningApp(x: unknown): x is RunningApp {
+  return typeof x === "object" && x !== null && "appPath" in x;
+}
+
 /**
  * Reads `shiny.previewType` for apps run in a terminal (openBrowser /
  * openBrowserWhenReady). This function has no positron-run-app `preview`
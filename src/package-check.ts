@@ -0,0 +1,581 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { scanAppDependencies, type AppDependency } from "./app-dependencies";
+import { getAppRuntime } from "./app-runtimes";
+import { callPythonToolFunction, callRToolFunction } from "./assistant/tools";
+import {
+  findRenvProject,
+  getPythonRunnerCommand,
+  pythonRunnerAddCommand,
+  pythonRunnerAddRequirementsCommand,
+} from "./environment-managers";
+import {
+  runShellCommandWithTerminalOutput,
+  type TerminalWithMyPty,
+} from "./extension-api-utils/run-command-terminal-output";
+import {
+  appPathForFile,
+  getExtensionPath,
+  getPythonCommand,
+  getRBinPath,
+} from "./run";
+
+// =============================================================================
+// Shiny Package Check
+// -----------------------------------------------------------------------------
+// Before an app is launched, check that the app's runtime has the shiny
+// package (and, optionally, a minimum version of it), so that a missing
+// package gives a one-click install instead of an import error in the app's
+// terminal. The check uses `check_package_version()` from Shiny Assistant's
+// tools (`assistant-prompts/tools.py` and `tools.R`). Runtimes that pass are
+// remembered for the session, so the check only slows down the first launch.
+//
+// The "Install Missing Packages for This App" command does the same for all
+// the packages that an app's code uses (see app-dependencies.ts).
+// =============================================================================
+
+const TERMINAL_NAME = "Shiny Packages";
+
+// Importing shiny can take a while the first time, e.g. while Python compiles
+// its bytecode.
+const CHECK_TIMEOUT_MS = 30 * 1000;
+const INSTALL_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** The terminal that package checks and installs show their output in. */
+export interface PackageTerminalOptions {
+  terminal?: TerminalWithMyPty;
+  newTerminalName: string;
+}
+
+/** A command that runs Python, e.g. an interpreter or `uv run python`. */
+type PythonCommand = { command: string; args: string[] };
+
+/** The result of `check_package_version()`. */
+interface PackageVersion {
+  version: string | null;
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  at_least_min_version: boolean | null;
+}
+
+// Runtimes that have shiny, keyed by language, runtime and minimum version
+const checkedRuntimes = new Set<string>();
+
+const packageTerminal: PackageTerminalOptions = {
+  newTerminalName: TERMINAL_NAME,
+};
+
+/**
+ * Check that shiny is installed for an app before it is launched, and offer to
+ * install or update it if it isn't.
+ *
+ * @param appFile The app file.
+ * @param language The app's language.
+ * @param python The Python to check, if the app isn't launched with the one of
+ * getPythonCommand(), e.g. the interpreter that debugs it.
+ * @returns Whether to launch the app: true if shiny is installed, was
+ * installed, couldn't be checked, or the user chose to run the app anyway.
+ */
+export async function checkShinyInstalled(
+  appFile: string,
+  language: "python" | "r",
+  python?: PythonCommand
+): Promise<boolean> {
+  const config = vscode.workspace.getConfiguration(
+    "shiny",
+    vscode.Uri.file(appFile)
+  );
+  if (!config.get<boolean>("checkPackages", true)) {
+    return true;
+  }
+  // renv projects have their own library, which renv::restore() fills
+  if (language === "r" && findRenvProject(appFile)) {
+    return true;
+  }
+
+  const minVersion =
+    config.get<string>(`${language}.minShinyVersion`, "").trim() || undefined;
+  const runtime = await getRuntimeKey(appFile, language, python);
+  if (!runtime) {
+    // Launching the app reports the missing runtime
+    return true;
+  }
+  const key = JSON.stringify([language, runtime, minVersion ?? null]);
+  if (checkedRuntimes.has(key)) {
+    return true;
+  }
+
+  const result = await checkShinyVersion(appFile, language, minVersion, python);
+  if (!result) {
+    // Don't keep apps from launching because of a problem with the check
+    return true;
+  }
+  if (result.version !== null && result.at_least_min_version !== false) {
+    checkedRuntimes.add(key);
+    return true;
+  }
+
+  const isInstalled = result.version !== null;
+  const install = isInstalled ? "Update Shiny" : "Install Shiny";
+  const response = await vscode.window.showWarningMessage(
+    isInstalled
+      ? `This app needs shiny ${minVersion} or later, but version ${result.version} is installed.`
+      : `The shiny ${language === "python" ? "package" : "R package"} isn't installed for ${runtime}.`,
+    install,
+    "Run Anyway"
+  );
+  if (response === "Run Anyway") {
+    return true;
+  }
+  if (response !== install) {
+    return false;
+  }
+
+  const requirement =
+    language === "python" && minVersion ? `shiny>=${minVersion}` : "shiny";
+  if (
+    !(await installPackages(
+      appFile,
+      language,
+      [requirement],
+      packageTerminal,
+      python
+    ))
+  ) {
+    vscode.window.showErrorMessage(
+      `Unable to install shiny. See the "${TERMINAL_NAME}" terminal for details.`
+    );
+    return false;
+  }
+
+  const installed = await checkShinyVersion(
+    appFile,
+    language,
+    minVersion,
+    python
+  );
+  if (
+    installed?.version === null ||
+    installed?.at_least_min_version === false
+  ) {
+    vscode.window.showErrorMessage(
+      `shiny is still not available after installing it. See the "${TERMINAL_NAME}" terminal for details.`
+    );
+    return false;
+  }
+  checkedRuntimes.add(key);
+  return true;
+}
+
+// The runtime that the check runs in, to remember which runtimes have shiny
+async function getRuntimeKey(
+  appFile: string,
+  language: "python" | "r",
+  python?: PythonCommand
+): Promise<string | undefined> {
+  if (language === "python") {
+    python ??= (await getPythonCommand(appFile)) || undefined;
+    return python ? [python.command, ...python.args].join(" ") : undefined;
+  }
+  return (await getRBinPath("Rscript", appFile)) || undefined;
+}
+
+async function checkShinyVersion(
+  appFile: string,
+  language: "python" | "r",
+  minVersion: string | undefined,
+  python?: PythonCommand
+): Promise<PackageVersion | undefined> {
+  const extensionPath = getExtensionPath();
+  if (!extensionPath) {
+    return undefined;
+  }
+
+  const opts = {
+    extensionPath,
+    env: {},
+    ...packageTerminal,
+    appFile,
+    python,
+    preserveFocus: true,
+    timeoutMs: CHECK_TIMEOUT_MS,
+  };
+  const res = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Window,
+      title: "Checking for shiny...",
+    },
+    () =>
+      language === "python"
+        ? callPythonToolFunction(
+            "tools.check_package_version",
+            [],
+            // eslint-disable-next-line @typescript-eslint/naming-convention
+            { package: "shiny", min_version: minVersion ?? null },
+            opts
+          )
+        : callRToolFunction(
+            "check_package_version",
+            // eslint-disable-next-line @typescript-eslint/naming-convention
+            { package: "shiny", min_version: minVersion ?? null },
+            opts
+          )
+  );
+  packageTerminal.terminal = res.terminal;
+
+  if (res.cmdResult.status === "error") {
+    console.warn(
+      `[shiny] Unable to check the shiny version: ${res.cmdResult.errorMsgs}`
+    );
+    return undefined;
+  }
+  const result = parseResult(res.cmdResult.stdout.join(""), "{", "}") as
+    | Partial<PackageVersion>
+    | undefined;
+  if (!result) {
+    return undefined;
+  }
+  return {
+    version: result.version ?? null,
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    at_least_min_version: result.at_least_min_version ?? null,
+  };
+}
+
+// The function's result is printed as JSON, possibly after other output
+function parseResult(stdout: string, open: string, close: string): unknown {
+  const json = stdout.slice(
+    stdout.indexOf(open),
+    stdout.lastIndexOf(close) + 1
+  );
+  try {
+    return JSON.parse(json);
+  } catch {
+    console.warn(`[shiny] Unexpected output from the package check:`);
+    console.warn(stdout);
+    return undefined;
+  }
+}
+
+/* Missing packages --------------------------------------------------------- */
+
+/**
+ * Why the extension doesn't check or install an app's packages, if it
+ * doesn't: renv projects have their own library, which renv manages.
+ *
+ * @param appFile The app file.
+ * @param language The app's language.
+ * @returns A message for the user, or undefined if the packages can be
+ * installed.
+ */
+export function packageInstallNotice(
+  appFile: string,
+  language: "python" | "r"
+): string | undefined {
+  if (language === "r" && findRenvProject(appFile)) {
+    return "This app is in a renv project. Use renv::restore() or renv::install() to install its packages.";
+  }
+  return undefined;
+}
+
+/**
+ * Find the packages that an app's code uses (see scanAppDependencies()) and
+ * that aren't installed for the app's runtime.
+ *
+ * @param appFile The app file.
+ * @param language The app's language.
+ * @param opts The terminal to show the check's output in.
+ * @returns The missing packages, or undefined if they couldn't be checked,
+ * including in renv projects (see packageInstallNotice()).
+ */
+export async function findMissingPackages(
+  appFile: string,
+  language: "python" | "r",
+  opts: PackageTerminalOptions = packageTerminal
+): Promise<AppDependency[] | undefined> {
+  if (packageInstallNotice(appFile, language)) {
+    return undefined;
+  }
+  const dependencies = scanAppDependencies(appPathForFile(appFile), language);
+  if (dependencies.length === 0) {
+    return [];
+  }
+  const extensionPath = getExtensionPath();
+  if (!extensionPath) {
+    return undefined;
+  }
+
+  const callOpts = {
+    extensionPath,
+    env: {},
+    terminal: opts.terminal,
+    newTerminalName: opts.newTerminalName,
+    appFile,
+    preserveFocus: true,
+    timeoutMs: CHECK_TIMEOUT_MS,
+  };
+  const res =
+    language === "python"
+      ? await callPythonToolFunction(
+          "tools.check_import_packages",
+          [
+            dependencies.map((dependency) => [
+              dependency.name,
+              dependency.package,
+            ]),
+          ],
+          {},
+          callOpts
+        )
+      : await callRToolFunction(
+          "check_package_versions",
+          { packages: dependencies.map((dependency) => dependency.package) },
+          callOpts
+        );
+  opts.terminal = res.terminal;
+  if (res.cmdResult.status === "error") {
+    return undefined;
+  }
+
+  // Python's check says whether the package is installed, R's has its version
+  const results = parseResult(res.cmdResult.stdout.join(""), "[", "]") as
+    | { package: string; installed?: boolean; version: string | null }[]
+    | undefined;
+  if (!Array.isArray(results)) {
+    return undefined;
+  }
+  const missing = new Set(
+    results
+      .filter((result) => !(result.installed ?? result.version !== null))
+      .map((result) => result.package)
+  );
+  return dependencies.filter((dependency) => missing.has(dependency.package));
+}
+
+/**
+ * Install packages in an app's runtime, streaming the output to a terminal:
+ * with `uv add`, `poetry add` or `pixi add` for projects of those tools, with
+ * pip for other Python environments, and with `install.packages()` for R.
+ *
+ * @param appFile The app file.
+ * @param language The app's language.
+ * @param requirements The packages to install. Python packages may have a
+ * version specifier, e.g. `shiny>=1.0`.
+ * @param opts The terminal to show the output in.
+ * @param python The Python environment to install into with pip, instead of
+ * the app's environment.
+ * @returns Whether the install command succeeded. Nothing is installed in renv
+ * projects (see packageInstallNotice()).
+ */
+export async function installPackages(
+  appFile: string,
+  language: "python" | "r",
+  requirements: string[],
+  opts: PackageTerminalOptions = packageTerminal,
+  python?: PythonCommand
+): Promise<boolean> {
+  if (packageInstallNotice(appFile, language)) {
+    return false;
+  }
+
+  const installCommand =
+    language === "python"
+      ? await getPythonInstallCommand(appFile, requirements, python)
+      : await getRInstallCommand(appFile, requirements);
+  if (!installCommand) {
+    return false;
+  }
+
+  const res = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Installing ${requirements.join(", ")}...`,
+    },
+    () =>
+      runShellCommandWithTerminalOutput({
+        ...installCommand,
+        cwd: vscode.workspace.getWorkspaceFolder(vscode.Uri.file(appFile))?.uri
+          .fsPath,
+        env: process.env,
+        terminal: opts.terminal,
+        newTerminalName: opts.newTerminalName,
+        timeoutMs: INSTALL_TIMEOUT_MS,
+      })
+  );
+  opts.terminal = res.terminal;
+  return res.cmdResult.status === "success";
+}
+
+async function getPythonInstallCommand(
+  appFile: string,
+  requirements: string[],
+  python?: PythonCommand
+): Promise<{ cmd: string; args: string[] } | undefined> {
+  // The given Python, or a runtime that was selected for the app, wins over
+  // the environment manager, see getPythonCommand()
+  const runner =
+    python || getAppRuntime(appFile, "python")
+      ? undefined
+      : getPythonRunnerCommand(appFile);
+  const add = runner && pythonRunnerAddCommand(runner, requirements);
+  if (add) {
+    return { cmd: add.command, args: add.args };
+  }
+
+  python ??= (await getPythonCommand(appFile)) || undefined;
+  if (!python) {
+    return undefined;
+  }
+  return {
+    cmd: python.command,
+    args: [
+      ...python.args,
+      "-m",
+      "pip",
+      "install",
+      "--upgrade",
+      ...requirements,
+    ],
+  };
+}
+
+/**
+ * The command that installs the packages of a requirements file for a Python
+ * app, like the commands that install single packages: with the project's
+ * environment manager (e.g. `uv add -r requirements.txt`), otherwise with pip
+ * in the app's Python environment.
+ *
+ * @param appFile The app file.
+ * @param requirementsFile The absolute path of the requirements file.
+ * @returns The command, or undefined if there is no Python to install with.
+ */
+export async function getPythonRequirementsInstallCommand(
+  appFile: string,
+  requirementsFile: string
+): Promise<{ cmd: string; args: string[] } | undefined> {
+  const runner = getAppRuntime(appFile, "python")
+    ? undefined
+    : getPythonRunnerCommand(appFile);
+  const add =
+    runner && pythonRunnerAddRequirementsCommand(runner, requirementsFile);
+  if (add) {
+    return { cmd: add.command, args: add.args };
+  }
+
+  const python = await getPythonCommand(appFile);
+  if (!python) {
+    return undefined;
+  }
+  return {
+    cmd: python.command,
+    args: [...python.args, "-m", "pip", "install", "-r", requirementsFile],
+  };
+}
+
+async function getRInstallCommand(
+  appFile: string,
+  requirements: string[]
+): Promise<{ cmd: string; args: string[] } | undefined> {
+  const rscript = await getRBinPath("Rscript", appFile);
+  if (!rscript) {
+    return undefined;
+  }
+  // Use the configured CRAN mirror, if there is one
+  const code =
+    "local({ repos <- getOption('repos'); " +
+    "if (is.null(repos) || identical(unname(repos['CRAN']), '@CRAN@')) " +
+    "repos <- c(CRAN = 'https://cloud.r-project.org'); " +
+    `install.packages(c(${requirements.map((pkg) => JSON.stringify(pkg)).join(", ")}), repos = repos) })`;
+  return { cmd: rscript, args: ["-e", code] };
+}
+
+/**
+ * Scan an app for the packages it uses, and let the user choose which of the
+ * missing ones to install.
+ *
+ * @param uri The app file. Defaults to the file in the active editor.
+ */
+export async function installMissingPackages(uri?: vscode.Uri): Promise<void> {
+  const appFile = (uri ?? vscode.window.activeTextEditor?.document.uri)?.fsPath;
+  if (!appFile) {
+    vscode.window.showErrorMessage("No active file");
+    return;
+  }
+  const language = /\.py$/i.test(appFile)
+    ? "python"
+    : /\.r$/i.test(appFile)
+      ? "r"
+      : undefined;
+  if (!language) {
+    vscode.window.showErrorMessage(
+      "Only Python and R files can be Shiny apps."
+    );
+    return;
+  }
+  const notice = packageInstallNotice(appFile, language);
+  if (notice) {
+    vscode.window.showInformationMessage(notice);
+    return;
+  }
+
+  const missing = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: "Checking the app's packages...",
+    },
+    () => findMissingPackages(appFile, language)
+  );
+  if (!missing) {
+    vscode.window.showErrorMessage(
+      `Unable to check the app's packages. See the "${TERMINAL_NAME}" terminal for details.`
+    );
+    return;
+  }
+  const appName = path.basename(appPathForFile(appFile));
+  if (missing.length === 0) {
+    vscode.window.showInformationMessage(
+      `All the packages that ${appName} uses are installed.`
+    );
+    return;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    missing.map((dependency) => ({
+      label: dependency.package,
+      description:
+        dependency.name !== dependency.package
+          ? `for ${language === "python" ? "import" : "library"} ${dependency.name}`
+          : undefined,
+      picked: true,
+    })),
+    {
+      title: `Install Missing Packages for ${appName}`,
+      placeHolder: "Select the packages to install",
+      canPickMany: true,
+    }
+  );
+  if (!selected || selected.length === 0) {
+    return;
+  }
+
+  const requirements = selected.map((item) => item.label);
+  if (!(await installPackages(appFile, language, requirements))) {
+    vscode.window.showErrorMessage(
+      `Unable to install the packages. See the "${TERMINAL_NAME}" terminal for details.`
+    );
+    return;
+  }
+
+  const stillMissing = (await findMissingPackages(appFile, language)) ?? [];
+  const notInstalled = requirements.filter((requirement) =>
+    stillMissing.some((dependency) => dependency.package === requirement)
+  );
+  if (notInstalled.length > 0) {
+    vscode.window.showWarningMessage(
+      `These packages are still missing: ${notInstalled.join(", ")}. See the "${TERMINAL_NAME}" terminal for details.`
+    );
+  } else {
+    vscode.window.showInformationMessage(
+      `Installed ${requirements.join(", ")}.`
+    );
+  }
+}
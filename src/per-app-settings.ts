@@ -0,0 +1,39 @@
+import * as path from "path";
+import * as vscode from "vscode";
+
+/**
+ * Looks up the value for an app file in a per-app settings map, like
+ * `shiny.envOverrides`. These maps are keyed by workspace-relative file paths
+ * (using forward slashes) and are only read from the workspace settings,
+ * because their keys are only meaningful within one workspace.
+ *
+ * @param section - Configuration section, e.g. `shiny` or `shiny.python`
+ * @param key - Name of the setting within the section
+ * @param appFilePath - Absolute path to the Shiny app file
+ * @returns The value for the app, or undefined if there is none
+ */
+export function getPerAppSetting<T>(
+  section: string,
+  key: string,
+  appFilePath: string
+): T | undefined {
+  const folder =
+    vscode.workspace.getWorkspaceFolder(vscode.Uri.file(appFilePath)) ??
+    vscode.workspace.workspaceFolders?.[0];
+  if (!folder) {
+    return undefined;
+  }
+
+  const relativePath = path.relative(folder.uri.fsPath, appFilePath);
+  if (relativePath.startsWith("..")) {
+    return undefined;
+  }
+  const normalizedRelativePath = relativePath.split(path.sep).join("/");
+
+  const inspected = vscode.workspace
+    .getConfiguration(section, folder.uri)
+    .inspect<Record<string, T>>(key);
+  const overrides = inspected?.workspaceValue || {};
+
+  return overrides[normalizedRelativePath];
+}
@@ -1,27 +1,68 @@
 import * as vscode from "vscode";
 import { suggestPort } from "./net-utils";
+import { getPortsInUse } from "./running-apps";
 
 const transientPorts: Record<string, number | undefined> = {};
 
+/**
+ * Get the port for an app. The app's own port, like the `port` in the
+ * `[tool.shiny]` table of its pyproject.toml, or else the configured
+ * `shiny.<language>.port` is used unless another running app already listens
+ * on it; otherwise each app gets its own transient port, which is reused the
+ * next time the app is started.
+ */
 export async function getAppPort(
   reason: "run" | "debug",
-  language: "python" | "r" = "python"
+  language: "python" | "r" = "python",
+  appPath?: string,
+  appPort?: number
 ): Promise<number> {
-  return (
-    // Port can be zero, which means random assignment
-    vscode.workspace.getConfiguration(`shiny.${language}`).get("port") ||
-    (await defaultPort(`app_${reason}`))
-  );
+  if (appPort) {
+    if (!getPortsInUse(appPath).includes(appPort)) {
+      return appPort;
+    }
+    const port = await defaultPort(portCacheKey(`app_${reason}`, appPath));
+    vscode.window.showWarningMessage(
+      `Port ${appPort} from the app's project settings is used by another ` +
+        `running app. Using port ${port} instead.`
+    );
+    return port;
+  }
+
+  const configPort = vscode.workspace
+    .getConfiguration(`shiny.${language}`)
+    .get<number>("port");
+  // Port can be zero, which means random assignment
+  if (configPort && !getPortsInUse(appPath).includes(configPort)) {
+    return configPort;
+  }
+  return await defaultPort(portCacheKey(`app_${reason}`, appPath));
 }
 
 export async function getAutoreloadPort(
-  reason: "run" | "debug"
+  reason: "run" | "debug",
+  appPath?: string
 ): Promise<number> {
-  return (
-    // Port can be zero, which means random assignment
-    vscode.workspace.getConfiguration("shiny.python").get("autoreloadPort") ||
-    (await defaultPort(`autoreload_${reason}`))
-  );
+  const configPort = vscode.workspace
+    .getConfiguration("shiny.python")
+    .get<number>("autoreloadPort");
+  // Port can be zero, which means random assignment
+  if (configPort && !getPortsInUse(appPath).includes(configPort)) {
+    return configPort;
+  }
+  return await defaultPort(portCacheKey(`autoreload_${reason}`, appPath));
+}
+
+/**
+ * Get the port of the redirect server that Shiny for R app previews go through
+ * in some remote environments (see redirect-server.ts).
+ */
+export async function getRedirectPort(appPath?: string): Promise<number> {
+  return await defaultPort(portCacheKey("redirect_run", appPath));
+}
+
+function portCacheKey(prefix: string, appPath?: string): string {
+  return appPath ? `${prefix}:${appPath}` : prefix;
 }
 
 async function defaultPort(portCacheKey: string): Promise<number> {
@@ -0,0 +1,394 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// =============================================================================
+// Python App Targets
+// -----------------------------------------------------------------------------
+// `shiny run` takes either an app file or a `module:attribute` target. App
+// files that are part of a Python package are run as modules, so that their
+// relative imports work, with the package's source directory (e.g. `src/` for
+// the src layout) on the PYTHONPATH. Projects can also choose the target, e.g.
+// an app factory or a Starlette app that mounts the Shiny app, in the
+// `[tool.shiny]` table of their `pyproject.toml`:
+//
+//     [tool.shiny]
+//     app = "myapp.asgi:app"     # module:attribute, or a file
+//     factory = false            # `app` is a function that creates the app
+//     port = 8000
+//     reload-dirs = ["src/myapp", "data"]
+//     app-dir = "src"            # where to import `app` from
+//     path = "/shiny/"           # where `app` serves the Shiny app
+// =============================================================================
+
+/** The `[tool.shiny]` table of a `pyproject.toml` file. */
+export interface ShinyProjectConfig {
+  app?: string;
+  factory?: boolean;
+  port?: number;
+  reloadDirs?: string[];
+  appDir?: string;
+  path?: string;
+}
+
+export interface PythonAppTarget {
+  /** The APP argument of `shiny run`: the app file or `module:attribute`. */
+  app: string;
+  /** The directory with the `pyproject.toml`, if the app is in a project. */
+  projectRoot?: string;
+  /** The directory that `app` is imported from (`--app-dir`). */
+  appDir?: string;
+  /** Whether `app` is a function that creates the app (`--factory`). */
+  factory: boolean;
+  /** The port from `[tool.shiny]`, if set. */
+  port?: number;
+  /** Extra directories to watch for changes (`--reload-dir`), absolute. */
+  reloadDirs: string[];
+  /** The URL path of the Shiny app, e.g. where a Starlette app mounts it. */
+  urlPath: string;
+}
+
+/**
+ * Resolve what `shiny run` should run for a Python app file, based on the
+ * package the file is in and the project's `[tool.shiny]` configuration.
+ *
+ * @param appFile The absolute path of the app file.
+ */
+export function resolvePythonAppTarget(appFile: string): PythonAppTarget {
+  const projectRoot = findProjectRoot(appFile);
+  if (!projectRoot) {
+    return {
+      ...packageAppTarget(appFile),
+      factory: false,
+      reloadDirs: [],
+      urlPath: "/",
+    };
+  }
+
+  const config = parseShinyProjectConfig(
+    readFile(path.join(projectRoot, "pyproject.toml")) ?? ""
+  );
+  const target: PythonAppTarget = {
+    ...packageAppTarget(appFile),
+    projectRoot,
+    factory: false,
+    port: config.port,
+    reloadDirs: (config.reloadDirs ?? []).map((dir) =>
+      path.resolve(projectRoot, dir)
+    ),
+    urlPath: "/",
+  };
+
+  if (
+    config.app &&
+    configAppApplies(projectRoot, config.app, config, appFile)
+  ) {
+    const isFile = /\.py$/i.test(config.app);
+    target.app = isFile ? path.resolve(projectRoot, config.app) : config.app;
+    target.factory = config.factory ?? false;
+    target.appDir = isFile
+      ? undefined
+      : config.appDir
+        ? path.resolve(projectRoot, config.appDir)
+        : defaultAppDir(projectRoot);
+    if (config.path) {
+      target.urlPath = config.path.startsWith("/")
+        ? config.path
+        : `/${config.path}`;
+    }
+  }
+  return target;
+}
+
+/**
+ * The target of an app file on its own. Core apps in a package are run as a
+ * module. Express apps have no app object to point at, so they are still run
+ * as a file, but their package is put on the PYTHONPATH.
+ */
+function packageAppTarget(appFile: string): { app: string; appDir?: string } {
+  const module = packageModuleForFile(appFile);
+  if (!module) {
+    return { app: appFile };
+  }
+  const hasAppObject = /^app\s*(?::[^=\n]*)?=/m.test(readFile(appFile) ?? "");
+  return {
+    app: hasAppObject ? `${module.name}:app` : appFile,
+    appDir: module.appDir,
+  };
+}
+
+/**
+ * Arguments for `shiny run` that select the app, to add after the extension's
+ * and the user's other arguments: the options, then the APP argument.
+ */
+export function pythonAppTargetArgs(
+  target: PythonAppTarget,
+  reload: boolean
+): string[] {
+  const args: string[] = [];
+  // App files are imported from their own directory
+  if (target.appDir && !path.isAbsolute(target.app)) {
+    args.push("--app-dir", target.appDir);
+  }
+  if (target.factory) {
+    args.push("--factory");
+  }
+  if (reload) {
+    for (const dir of target.reloadDirs) {
+      args.push("--reload-dir", dir);
+    }
+  }
+  args.push(target.app);
+  return args;
+}
+
+/**
+ * The directory to run a Python app target from: the project root for apps
+ * that are imported from a package, undefined for apps that are run as a file
+ * from a directory of scripts.
+ */
+export function pythonProjectDir(target: PythonAppTarget): string | undefined {
+  return target.appDir ? target.projectRoot : undefined;
+}
+
+/**
+ * The environment for running a Python app target: the app's directory is
+ * prepended to `PYTHONPATH`, so the app's package can be imported by the app
+ * and by the processes that it starts.
+ *
+ * @param target The app target.
+ * @param env The app's environment variables, which take precedence over
+ * `process.env`.
+ * @returns The variables to add to the app's environment.
+ */
+export function pythonAppTargetEnv(
+  target: PythonAppTarget,
+  env: Record<string, string>
+): Record<string, string> {
+  if (!target.appDir) {
+    return {};
+  }
+  const pythonPath = env.PYTHONPATH ?? process.env.PYTHONPATH;
+  return {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    PYTHONPATH: pythonPath
+      ? `${target.appDir}${path.delimiter}${pythonPath}`
+      : target.appDir,
+  };
+}
+
+/** The nearest directory with a `pyproject.toml`, starting at the file's. */
+function findProjectRoot(file: string): string | undefined {
+  let dir = path.dirname(file);
+  while (true) {
+    if (fs.existsSync(path.join(dir, "pyproject.toml"))) {
+      return dir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+// Where packages are imported from: `src/` for the src layout, otherwise the
+// project root
+function defaultAppDir(projectRoot: string): string {
+  const src = path.join(projectRoot, "src");
+  return fs.existsSync(src) && fs.statSync(src).isDirectory()
+    ? src
+    : projectRoot;
+}
+
+/**
+ * Whether the `app` of a project's `[tool.shiny]` table is used to run a file:
+ * when the file is part of the same top-level package as `app`, or is the
+ * `app` file itself. Other apps in the project, like examples, are run on
+ * their own.
+ */
+function configAppApplies(
+  projectRoot: string,
+  app: string,
+  config: ShinyProjectConfig,
+  appFile: string
+): boolean {
+  if (/\.py$/i.test(app)) {
+    return path.resolve(projectRoot, app) === path.resolve(appFile);
+  }
+
+  const topLevelPackage = app.split(":")[0].split(".")[0];
+  const appDir = config.appDir
+    ? path.resolve(projectRoot, config.appDir)
+    : defaultAppDir(projectRoot);
+  const packageDir = path.join(appDir, topLevelPackage);
+  return (
+    path.resolve(appFile) === `${packageDir}.py` ||
+    path.resolve(appFile).startsWith(packageDir + path.sep)
+  );
+}
+
+/**
+ * The module name of a file in a package, e.g. `myapp.app` for
+ * `src/myapp/app.py` if `src/myapp` has an `__init__.py`, and the directory
+ * that the package is imported from (`src`).
+ */
+function packageModuleForFile(
+  file: string
+): { name: string; appDir: string } | undefined {
+  const parts = [path.basename(file, path.extname(file))];
+  let dir = path.dirname(file);
+  while (fs.existsSync(path.join(dir, "__init__.py"))) {
+    parts.unshift(path.basename(dir));
+    dir = path.dirname(dir);
+  }
+  return parts.length > 1 ? { name: parts.join("."), appDir: dir } : undefined;
+}
+
+function readFile(file: string): string | undefined {
+  try {
+    return fs.readFileSync(file, "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+/* pyproject.toml ------------------------------------------------------- */
+
+// A `key = value` line, where the value may continue on the following lines
+// (for arrays)
+const KEY_VALUE = /^([A-Za-z0-9_-]+)\s*=\s*(.*)$/;
+
+/**
+ * Parse the `[tool.shiny]` table of a `pyproject.toml` file. Only the values
+ * that the table uses are supported: strings, booleans, integers and arrays of
+ * strings. Unknown keys and values of the wrong type are ignored.
+ *
+ * @param content The content of `pyproject.toml`.
+ */
+export function parseShinyProjectConfig(content: string): ShinyProjectConfig {
+  const lines = content.split(/\r?\n/);
+  const start = lines.findIndex((line) =>
+    /^\s*\[\s*tool\s*\.\s*shiny\s*\]\s*(#.*)?$/.test(line)
+  );
+  if (start < 0) {
+    return {};
+  }
+
+  const config: ShinyProjectConfig = {};
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = stripComment(lines[i]).trim();
+    if (line.startsWith("[")) {
+      break;
+    }
+    const match = KEY_VALUE.exec(line);
+    if (!match) {
+      continue;
+    }
+
+    let valueCode = match[2];
+    // Multi-line arrays
+    while (valueCode.startsWith("[") && !valueCode.endsWith("]")) {
+      if (++i >= lines.length) {
+        break;
+      }
+      valueCode += " " + stripComment(lines[i]).trim();
+    }
+
+    const value = parseTomlValue(valueCode);
+    switch (match[1]) {
+      case "app":
+        if (typeof value === "string") {
+          config.app = value;
+        }
+        break;
+      case "factory":
+        if (typeof value === "boolean") {
+          config.factory = value;
+        }
+        break;
+      case "port":
+        if (typeof value === "number") {
+          config.port = value;
+        }
+        break;
+      case "reload-dirs":
+        if (Array.isArray(value)) {
+          config.reloadDirs = value;
+        }
+        break;
+      case "app-dir":
+        if (typeof value === "string") {
+          config.appDir = value;
+        }
+        break;
+      case "path":
+        if (typeof value === "string") {
+          config.path = value;
+        }
+        break;
+    }
+  }
+  return config;
+}
+
+type TomlValue = string | number | boolean | string[] | undefined;
+
+function parseTomlValue(code: string): TomlValue {
+  if (code === "true" || code === "false") {
+    return code === "true";
+  }
+  if (/^[+-]?\d+$/.test(code)) {
+    return parseInt(code, 10);
+  }
+  const string = parseTomlString(code);
+  if (string !== undefined) {
+    return string;
+  }
+  if (code.startsWith("[") && code.endsWith("]")) {
+    const items = code
+      .slice(1, -1)
+      .split(",")
+      .map((item) => item.trim())
+      .filter((item) => item !== "")
+      .map(parseTomlString);
+    return items.every((item) => item !== undefined)
+      ? (items as string[])
+      : undefined;
+  }
+  return undefined;
+}
+
+function parseTomlString(code: string): string | undefined {
+  if (/^'[^']*'$/.test(code)) {
+    // Literal string
+    return code.slice(1, -1);
+  }
+  if (/^"(?:[^"\\]|\\.)*"$/.test(code)) {
+    try {
+      return JSON.parse(code);
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+// Remove a `#` comment, unless the `#` is in a string
+function stripComment(line: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === "\\" && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#") {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
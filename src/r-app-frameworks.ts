@@ -0,0 +1,217 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+
+// =============================================================================
+// R App Frameworks
+// -----------------------------------------------------------------------------
+// Shiny for R apps that are built with a framework, or as an R package, can't
+// be run with `shiny::runApp()` on the app file or its directory. The
+// framework is detected from the project files, and each framework has its own
+// way of creating the app, which is then passed to `shiny::runApp()`:
+//
+// - golem: an R package with `golem` in its DESCRIPTION, or a
+//   `inst/golem-config.yml`. Loaded with pkgload, then `run_app()`.
+// - leprechaun: an R package with `leprechaun` in its DESCRIPTION. Loaded with
+//   pkgload, then `run()`.
+// - rhino: a project with a `rhino.yml`. Created with `rhino::app()`, from the
+//   project root.
+// - inst/app: any other R package with an app in `inst/app`. Loaded with
+//   pkgload, then the app directory is run.
+//
+// Only the entry points of a framework (see ENTRY_POINTS) run its app. Other
+// apps in the project, like examples in `inst/examples`, are run on their own.
+//
+// The framework of each directory is cached until one of the files that it is
+// detected from changes.
+// =============================================================================
+
+export type RAppFrameworkKind = "golem" | "leprechaun" | "rhino" | "inst-app";
+
+export interface RAppFramework {
+  kind: RAppFrameworkKind;
+  /** The project root: the package directory, or where `rhino.yml` is. */
+  root: string;
+}
+
+// The files, relative to the project root, that start the app in each
+// framework, in order of preference. These get the run buttons. The `app.R` of
+// a package is the one that deployments run.
+const ENTRY_POINTS: Record<RAppFrameworkKind, string[]> = {
+  golem: [
+    "R/run_app.R",
+    "dev/run_dev.R",
+    "R/app_ui.R",
+    "R/app_server.R",
+    "app.R",
+  ],
+  leprechaun: ["R/run.R", "R/ui.R", "R/server.R", "app.R"],
+  rhino: ["app.R", "app/main.R"],
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  "inst-app": ["inst/app/app.R", "inst/app/ui.R", "inst/app/server.R", "app.R"],
+};
+
+// The files that frameworks are detected from, see `detectPackageFramework()`
+const FRAMEWORK_FILES_GLOB =
+  "**/{DESCRIPTION,rhino.yml,golem-config.yml,app.R,ui.R,server.R}";
+
+// The framework of the files in each directory, or null if they have none
+const frameworkCache = new Map<string, RAppFramework | null>();
+
+/**
+ * Detect the framework of the R app that a file belongs to, by looking for a
+ * `rhino.yml` or `DESCRIPTION` file in the file's directory and its parents, up
+ * to the file's workspace folder.
+ *
+ * @param file A file in the project, e.g. the app file.
+ * @returns The framework, or undefined if the file isn't part of a framework
+ * app (including R packages without an app).
+ */
+export function detectRAppFramework(file: string): RAppFramework | undefined {
+  const dir = path.dirname(path.resolve(file));
+  let framework = frameworkCache.get(dir);
+  if (framework === undefined) {
+    framework = findRAppFramework(dir) ?? null;
+    frameworkCache.set(dir, framework);
+  }
+  return framework ?? undefined;
+}
+
+function findRAppFramework(startDir: string): RAppFramework | undefined {
+  const workspaceDir = vscode.workspace.getWorkspaceFolder(
+    vscode.Uri.file(startDir)
+  )?.uri.fsPath;
+
+  let dir = startDir;
+  while (true) {
+    if (fs.existsSync(path.join(dir, "rhino.yml"))) {
+      return { kind: "rhino", root: dir };
+    }
+
+    const description = readFile(path.join(dir, "DESCRIPTION"));
+    if (description !== undefined) {
+      // The nearest package decides, even if it has no app
+      const kind = detectPackageFramework(dir, description);
+      return kind ? { kind, root: dir } : undefined;
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir || dir === workspaceDir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Forget the cached frameworks when the files that they are detected from
+ * change. This should be called once during extension activation.
+ */
+export function registerRAppFrameworks(): vscode.Disposable {
+  const watcher =
+    vscode.workspace.createFileSystemWatcher(FRAMEWORK_FILES_GLOB);
+  const clearCache = () => frameworkCache.clear();
+
+  return vscode.Disposable.from(
+    watcher,
+    watcher.onDidCreate(clearCache),
+    watcher.onDidChange(clearCache),
+    watcher.onDidDelete(clearCache),
+    vscode.workspace.onDidChangeWorkspaceFolders(clearCache)
+  );
+}
+
+function detectPackageFramework(
+  root: string,
+  description: string
+): RAppFrameworkKind | undefined {
+  if (
+    /\bgolem\b/.test(description) ||
+    fs.existsSync(path.join(root, "inst", "golem-config.yml"))
+  ) {
+    return "golem";
+  }
+  if (/\bleprechaun\b/.test(description)) {
+    return "leprechaun";
+  }
+  if (
+    ENTRY_POINTS["inst-app"].some((file) =>
+      fs.existsSync(path.join(root, file))
+    )
+  ) {
+    return "inst-app";
+  }
+  return undefined;
+}
+
+function readFile(file: string): string | undefined {
+  try {
+    return fs.readFileSync(file, "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The R app framework whose app a file starts, like the golem app of its
+ * `R/run_app.R`.
+ *
+ * @param file The absolute path of a file.
+ * @returns The framework, or undefined if the file isn't an entry point of a
+ * framework app.
+ */
+export function getRAppFrameworkForEntryPoint(
+  file: string
+): RAppFramework | undefined {
+  if (!path.isAbsolute(file) || !/\.R$/i.test(file)) {
+    return undefined;
+  }
+  const framework = detectRAppFramework(file);
+  return framework &&
+    getRAppFrameworkEntryPoints(framework).includes(path.normalize(file))
+    ? framework
+    : undefined;
+}
+
+/**
+ * Whether a file starts an app in an R app framework, like `R/run_app.R` in a
+ * golem app.
+ */
+export function isRAppFrameworkEntryPoint(file: string): boolean {
+  return getRAppFrameworkForEntryPoint(file) !== undefined;
+}
+
+/**
+ * The files that start an app in an R app framework, in order of preference.
+ * Only files that exist are returned.
+ */
+export function getRAppFrameworkEntryPoints(
+  framework: RAppFramework
+): string[] {
+  return ENTRY_POINTS[framework.kind]
+    .map((file) => path.join(framework.root, file))
+    .filter((file) => fs.existsSync(file));
+}
+
+/**
+ * R code that creates the app of an R app framework, to be passed to
+ * `shiny::runApp()` as its `appDir`.
+ */
+export function rFrameworkAppCode(framework: RAppFramework): string {
+  const root = JSON.stringify(framework.root);
+  const loadAll =
+    `pkgload::load_all(${root}, export_all = FALSE, helpers = FALSE, ` +
+    "attach_testthat = FALSE)";
+
+  switch (framework.kind) {
+    case "golem":
+      return `{ options(golem.app.prod = FALSE); ${loadAll}; run_app() }`;
+    case "leprechaun":
+      return `{ ${loadAll}; run() }`;
+    case "rhino":
+      // rhino reads rhino.yml and the app from the working directory
+      return `{ setwd(${root}); rhino::app() }`;
+    case "inst-app":
+      return `{ ${loadAll}; file.path(${root}, "inst", "app") }`;
+  }
+}
@@ -0,0 +1,84 @@
+import * as http from "http";
+import * as vscode from "vscode";
+
+// =============================================================================
+// Redirect Server
+// -----------------------------------------------------------------------------
+// In environments like Codespaces, app previews are opened through a second
+// port that does nothing but redirect to the app (see RemoteUrlStrategy in
+// getRemoteSafeUrl.ts). Shiny for Python's autoreload port does exactly that.
+// Shiny for R has no such port, so the extension serves one for R apps.
+// =============================================================================
+
+// The redirect server of each app, keyed by app path
+const redirectServers = new Map<string, http.Server>();
+
+/**
+ * Start a server on a local port that redirects every request to `location`,
+ * replacing the app's previous redirect server, if any.
+ *
+ * @param appPath The app the server is for.
+ * @param port The local port to listen on.
+ * @param location The URL to redirect to, usually the app's remote-safe URL.
+ * @returns A disposable that stops the server, or undefined if the server
+ * couldn't listen on the port.
+ */
+export async function startRedirectServer(
+  appPath: string,
+  port: number,
+  location: string
+): Promise<vscode.Disposable | undefined> {
+  await stopRedirectServer(appPath);
+
+  const server = http.createServer((req, res) => {
+    res.writeHead(302, { location });
+    res.end();
+  });
+
+  const listening = await new Promise<boolean>((resolve) => {
+    server.on("listening", () => resolve(true));
+    server.on("error", (err) => {
+      console.warn(`[shiny] Redirect server failed on port ${port}`, err);
+      resolve(false);
+    });
+    server.listen(port, "127.0.0.1");
+  });
+  if (!listening) {
+    return undefined;
+  }
+
+  redirectServers.set(appPath, server);
+
+  return new vscode.Disposable(() => {
+    // A later run of the app may have replaced this server already
+    if (redirectServers.get(appPath) === server) {
+      stopRedirectServer(appPath).catch((err) => {
+        console.warn(
+          `[shiny] Failed to stop redirect server for ${appPath}`,
+          err
+        );
+      });
+    }
+  });
+}
+
+async function stopRedirectServer(appPath: string): Promise<void> {
+  const server = redirectServers.get(appPath);
+  if (!server) {
+    return;
+  }
+  redirectServers.delete(appPath);
+
+  await new Promise<void>((resolve) => {
+    // Errors are ignored; either way, the server isn't listening anymore
+    server.close(() => resolve());
+    server.closeAllConnections();
+  });
+}
+
+/**
+ * Stop all redirect servers, e.g. when the extension is deactivated.
+ */
+export async function stopAllRedirectServers(): Promise<void> {
+  await Promise.all([...redirectServers.keys()].map(stopRedirectServer));
+}
@@ -0,0 +1,94 @@
+import * as vscode from "vscode";
+import { getPerAppSetting } from "./per-app-settings";
+
+// =============================================================================
+// Extra App Arguments
+// -----------------------------------------------------------------------------
+// Users can pass extra arguments to `shiny run` (`shiny.python.runArgs`) and
+// to `shiny::runApp()` (`shiny.r.runAppArgs`), globally or per app file. The
+// arguments that the extension manages itself, like the port, are always set
+// by the extension.
+// =============================================================================
+
+/** The value of an argument to `shiny::runApp()`, as written in settings. */
+export type RArgValue = string | number | boolean | null;
+
+// Arguments of shiny::runApp() that are set by the extension
+const R_RESERVED_ARGS = ["appDir", "port", "launch.browser"];
+
+/**
+ * Resolves the extra `shiny run` arguments for a Shiny for Python app. The
+ * per-app arguments in `shiny.python.runArgsOverrides` replace the arguments
+ * in `shiny.python.runArgs`.
+ *
+ * @param appFilePath - Absolute path to the Shiny app file
+ * @returns Arguments to add to `shiny run`, before the app path
+ */
+export function getPythonRunArgs(appFilePath: string): string[] {
+  const args =
+    getPerAppSetting<string[]>(
+      "shiny.python",
+      "runArgsOverrides",
+      appFilePath
+    ) ??
+    vscode.workspace
+      .getConfiguration("shiny.python", vscode.Uri.file(appFilePath))
+      .get<string[]>("runArgs", []);
+
+  return args.filter((arg) => typeof arg === "string" && arg !== "");
+}
+
+/**
+ * Resolves the extra `shiny::runApp()` arguments for a Shiny for R app. The
+ * per-app arguments in `shiny.r.runAppArgsOverrides` are merged over the
+ * arguments in `shiny.r.runAppArgs`.
+ *
+ * @param appFilePath - Absolute path to the Shiny app file
+ * @returns Named arguments to add to `shiny::runApp()`
+ */
+export function getRRunAppArgs(appFilePath: string): Record<string, RArgValue> {
+  const args: Record<string, RArgValue> = {
+    ...vscode.workspace
+      .getConfiguration("shiny.r", vscode.Uri.file(appFilePath))
+      .get<Record<string, RArgValue>>("runAppArgs", {}),
+    ...getPerAppSetting<Record<string, RArgValue>>(
+      "shiny.r",
+      "runAppArgsOverrides",
+      appFilePath
+    ),
+  };
+
+  for (const name of R_RESERVED_ARGS) {
+    if (name in args) {
+      console.warn(
+        `[shiny] Ignoring runApp() argument \`${name}\`, which is set by the extension`
+      );
+      delete args[name];
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Formats `shiny::runApp()` arguments as R code, e.g.
+ * `host = "0.0.0.0", test.mode = TRUE`.
+ */
+export function formatRArgs(args: Record<string, RArgValue>): string {
+  return Object.entries(args)
+    .map(([name, value]) => `${name} = ${formatRValue(value)}`)
+    .join(", ");
+}
+
+function formatRValue(value: RArgValue): string {
+  if (value === null) {
+    return "NULL";
+  }
+  if (typeof value === "boolean") {
+    return value ? "TRUE" : "FALSE";
+  }
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? `${value}L` : value.toString();
+  }
+  return JSON.stringify(value);
+}
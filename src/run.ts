@@ -1,21 +1,80 @@
 import { PythonExtension } from "@vscode/python-extension";
 import * as fs from "fs";
-import { dirname as path_dirname, join as path_join } from "path";
+import {
+  basename as path_basename,
+  dirname as path_dirname,
+  join as path_join,
+  normalize as path_normalize,
+} from "path";
 import * as vscode from "vscode";
 import * as winreg from "winreg";
+import { resolveAppEnvironment, rSetEnvCode } from "./app-environment";
+import { getAppRuntime } from "./app-runtimes";
+import { classifyShinyApp, type ShinyAppType } from "./app-type";
+import {
+  getShinyDebugAppPath,
+  getShinyDebugAppPort,
+  getShinyDebugAppUrlPath,
+  SHINY_DEBUG_TYPE,
+} from "./debug-configuration";
+import {
+  findRenvProject,
+  getPythonRunnerCommand,
+  getPythonRunnerExecutable,
+  rRenvActivateCode,
+} from "./environment-managers";
 import { isShinyAppRPart } from "./extension";
 import {
   getPositronPreferredRuntime,
   getPositronRunAppApi,
 } from "./extension-api-utils/extensionHost";
+import {
+  getRemoteSafeUrl,
+  getRemoteUrlStrategy,
+} from "./extension-api-utils/getRemoteSafeUrl";
+import {
+  getInteractiveDocument,
+  isInteractiveDocumentFilename,
+  type InteractiveDocument,
+} from "./interactive-documents";
 import {
   configShinyPreviewTypeForPositronConsole,
   configShinyTimeoutOpenBrowser,
   openBrowser,
   openBrowserWhenReady,
+  waitUntilShinyAppIsResponding,
   waitUntilServerPortIsAvailable,
 } from "./net-utils";
-import { getAppPort, getAutoreloadPort } from "./port-settings";
+import { checkShinyInstalled } from "./package-check";
+import {
+  getAppPort,
+  getAutoreloadPort,
+  getRedirectPort,
+} from "./port-settings";
+import {
+  pythonAppTargetArgs,
+  pythonAppTargetEnv,
+  pythonProjectDir,
+  resolvePythonAppTarget,
+} from "./python-app-target";
+import {
+  getRAppFrameworkForEntryPoint,
+  rFrameworkAppCode,
+} from "./r-app-frameworks";
+import { startRedirectServer } from "./redirect-server";
+import { formatRArgs, getPythonRunArgs, getRRunAppArgs } from "./run-args";
+import {
+  appLabel,
+  appTerminalName,
+  getRunningApp,
+  getRunningApps,
+  onDidChangeRunningApps,
+  registerRunningApp,
+  setRunningAppStatus,
+  stopAllRunningApps,
+  stopRunningApp,
+  type RunningApp,
+} from "./running-apps";
 import {
   envVarsForShell as envVarsForTerminal,
   escapeCommandForTerminal,
@@ -30,103 +89,259 @@ const DEBUG_NAME = "Debug Shiny app";
 // -----------------------------------------------------------------------------
 // In Positron, the Viewer pane has a native stop button that uses PreviewSource
 // to interrupt the terminal process. In VS Code, we need to provide our own
-// stop button, so we track the active terminal and expose a stopApp() command.
-// The stop button appears in the editor title bar (see package.json menus).
+// stop button, so we track running apps (see running-apps.ts) and expose a
+// stopApp() command. The stop button appears in the editor title bar (see
+// package.json menus).
 // =============================================================================
 
-// Track the currently running Shiny terminal
-let activeShinyTerminal: vscode.Terminal | undefined;
-
-// Callback to notify when app running state changes
-let onAppRunningStateChange: ((running: boolean) => void) | undefined;
+interface StopAppQuickPickItem extends vscode.QuickPickItem {
+  appPath?: string;
+}
 
 /**
- * Set a callback to be notified when the app running state changes.
+ * Stop a running Shiny app. When `target` is given (e.g. the file whose editor
+ * title stop button was clicked), only that app is stopped, if it's running.
+ * Otherwise, if more than one app is running, the user chooses which app to
+ * stop, or to stop all of them.
  */
-export function setAppRunningStateChangeCallback(
-  callback: (running: boolean) => void
-): void {
-  onAppRunningStateChange = callback;
+export async function stopApp(target?: string | vscode.Uri): Promise<void> {
+  const targetPath = target instanceof vscode.Uri ? target.fsPath : target;
+  if (typeof targetPath === "string") {
+    const targetApp =
+      getRunningApp(targetPath) ?? getRunningApp(appPathForFile(targetPath));
+    if (targetApp) {
+      stopRunningApp(targetApp.appPath);
+    }
+    return;
+  }
+
+  const apps = getRunningApps();
+  if (apps.length === 0) {
+    return;
+  }
+  if (apps.length === 1) {
+    stopRunningApp(apps[0].appPath);
+    return;
+  }
+
+  const items: StopAppQuickPickItem[] = apps.map((app) => ({
+    label: appLabel(app.appPath),
+    description: `port ${app.port}`,
+    appPath: app.appPath,
+  }));
+  items.push(
+    { label: "", kind: vscode.QuickPickItemKind.Separator },
+    { label: "Stop all apps" }
+  );
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: "Stop Shiny App",
+    placeHolder: "Which app do you want to stop?",
+  });
+  if (!selected) {
+    return;
+  }
+
+  if (selected.appPath) {
+    stopRunningApp(selected.appPath);
+  } else {
+    stopAllRunningApps();
+  }
 }
 
 /**
- * Check if a Shiny app is currently running.
+ * Open the preview of a running app again, e.g. after its Simple Browser tab
+ * was closed.
  */
-export function isAppRunning(): boolean {
-  return activeShinyTerminal !== undefined;
+export async function openRunningAppPreview(appPath: string): Promise<void> {
+  const app = getRunningApp(appPath);
+  if (!app) {
+    vscode.window.showErrorMessage(`${appLabel(appPath)} is not running.`);
+    return;
+  }
+
+  await openBrowser(await getRunningAppUrl(app), app.terminal);
 }
 
 /**
- * Stop the currently running Shiny app by disposing the terminal.
+ * The URL of a running app's preview, translated into a proxy URL if
+ * necessary.
  */
-export function stopApp(): void {
-  if (activeShinyTerminal) {
-    activeShinyTerminal.dispose();
-    // The terminal close handler will set activeShinyTerminal to undefined
-  }
+export async function getRunningAppUrl(app: RunningApp): Promise<string> {
+  // See pyRunApp() for why Codespaces previews go through the autoreload port,
+  // or the redirect server for R apps.
+  const previewPort = getRemoteUrlStrategy().needsRedirectPort
+    ? (app.autoreloadPort ?? app.redirectPort ?? app.port)
+    : app.port;
+
+  return await getRemoteSafeUrl(previewPort);
+}
+
+// =============================================================================
+// Restart App
+// -----------------------------------------------------------------------------
+// Every launch of an app is remembered, so that shiny.restartApp can launch the
+// most recent app again in the same way, with the same port and working
+// directory, no matter which editor is active.
+// =============================================================================
+
+/** How an app was launched. */
+interface AppLaunch {
+  /** The app file that was launched (one of the files of multi-file R apps). */
+  appFile: string;
+  language: "python" | "r";
+  mode: "run" | "debug";
+  /** Working directory, if known. */
+  cwd?: string;
+  /** App port, if known. */
+  port?: number;
+}
+
+/** Settings to reuse when an app is launched again. */
+interface LaunchOptions {
+  cwd?: string;
+  port?: number;
+  isRestart?: boolean;
+}
+
+// Most recent launch of each app, keyed by app path (see appPathForFile())
+const appLaunches = new Map<string, AppLaunch>();
+let lastAppLaunch: AppLaunch | undefined;
+
+function recordAppLaunch(launch: AppLaunch): void {
+  appLaunches.set(appPathForFile(launch.appFile), launch);
+  lastAppLaunch = launch;
+  vscode.commands.executeCommand("setContext", "shiny.canRestartApp", true);
 }
 
-function setActiveShinyTerminal(terminal: vscode.Terminal | undefined): void {
-  activeShinyTerminal = terminal;
-  onAppRunningStateChange?.(terminal !== undefined);
+/**
+ * Remember the port and working directory that a debug configuration was
+ * resolved with, so that restarting the app doesn't pick new ones.
+ */
+function updateDebugAppLaunch(
+  appFile: string,
+  config: vscode.DebugConfiguration
+): void {
+  const launch = appLaunches.get(appPathForFile(appFile));
+  if (launch?.mode !== "debug") {
+    return;
+  }
+  launch.port ??= getShinyDebugAppPort(config);
+  launch.cwd ??= config.cwd ?? config.workingDirectory;
 }
 
 /**
- * Register a listener to clear the active terminal when it's closed.
- * This should be called once during extension activation.
+ * Launch an app again, in the same mode (run or debug) and with the same port
+ * and working directory as the last time.
+ *
+ * @param appPath The app to restart: the app file, or the app directory of a
+ * multi-file R app. Defaults to the most recently launched app.
  */
-export function registerTerminalCloseHandler(): vscode.Disposable {
-  return vscode.window.onDidCloseTerminal((closedTerminal) => {
-    if (closedTerminal === activeShinyTerminal) {
-      setActiveShinyTerminal(undefined);
+export async function restartApp(appPath?: string): Promise<void> {
+  const launch = appPath
+    ? appLaunches.get(path_normalize(appPath))
+    : lastAppLaunch;
+  if (!launch) {
+    vscode.window.showErrorMessage(
+      appPath
+        ? `${appLabel(appPath)} hasn't been launched yet.`
+        : "No Shiny app has been launched yet."
+    );
+    return;
+  }
+
+  const options: LaunchOptions = {
+    cwd: launch.cwd,
+    port: launch.port,
+    isRestart: true,
+  };
+
+  if (isInteractiveDocumentFilename(launch.appFile)) {
+    await runInteractiveDocument(launch.appFile, options);
+  } else if (launch.mode === "debug") {
+    if (launch.language === "python") {
+      await pyDebugApp(launch.appFile, options);
+    } else {
+      await rDebugApp(launch.appFile, options);
     }
-  });
+  } else {
+    if (launch.language === "python") {
+      await pyRunApp(launch.appFile, options);
+    } else {
+      await rRunApp(launch.appFile, options);
+    }
+  }
 }
 
 /* Shiny for Python --------------------------------------------------------- */
 
-export async function pyRunApp(): Promise<void> {
-  const path = getActiveEditorFile();
+/**
+ * Run a Shiny for Python app in a terminal.
+ *
+ * @param target The app file to run. Defaults to the file in the active
+ * editor. (When invoked from the editor title run menu, VS Code passes the
+ * editor's resource URI.)
+ * @param options Settings to reuse from an earlier launch, see restartApp().
+ */
+export async function pyRunApp(
+  target?: vscode.Uri | string,
+  options: LaunchOptions = {}
+): Promise<void> {
+  const path = getAppFile(target);
   if (!path) {
     return;
   }
 
-  if (!(await checkForPythonExtension())) {
+  const python = await getPythonCommand(path);
+  if (!python) {
     return;
   }
 
-  await saveActiveEditorFile();
-
-  const python = await getSelectedPythonInterpreter();
-  if (!python) {
+  if (!options.isRestart && !(await checkShinyInstalled(path, "python"))) {
     return;
   }
 
-  const port = await getAppPort("run", "python");
-  const autoreloadPort = await getAutoreloadPort("run");
+  await saveAppFile(path);
+
+  const appType = checkAppType(path, "python");
+  const appTarget = resolvePythonAppTarget(path);
+
+  const port =
+    options.port ?? (await getAppPort("run", "python", path, appTarget.port));
+  const autoreloadPort = await getAutoreloadPort("run", path);
 
-  const cwd = await resolveWorkingDirectory(path);
+  const cwd =
+    options.cwd ??
+    (await resolveWorkingDirectory(path, pythonProjectDir(appTarget)));
+  const appEnv = await resolveAppEnvironment(path);
+
+  recordAppLaunch({
+    appFile: path,
+    language: "python",
+    mode: "run",
+    cwd,
+    port,
+  });
 
   const terminal = await createTerminalAndCloseOthersWithSameName({
-    name: "Shiny",
+    name: appTerminalName(path),
     cwd: cwd,
     env: {
+      ...appEnv,
+      ...pythonAppTargetEnv(appTarget, appEnv),
       // We store the Python path here so we know whether the terminal can be
       // reused by us in the future (yes if the selected Python interpreter has
       // changed, no if it has). Currently we don't ever reuse terminals,
       // instead we always close the old ones--but this could change in the
       // future.
       // eslint-disable-next-line @typescript-eslint/naming-convention
-      PYSHINY_EXEC_CMD: python,
+      PYSHINY_EXEC_CMD: [python.command, ...python.args].join(" "),
       // We save this here so escapeCommandForTerminal knows what shell
       // semantics to use when escaping arguments. A bit magical, but oh well.
       ...envVarsForTerminal(),
     },
   });
 
-  // Track this as the active Shiny terminal
-  setActiveShinyTerminal(terminal);
-
   // Wait until the server port and auto-reload ports are both available.
   const serverPortsAvailable = await Promise.all([
     waitUntilServerPortIsAvailable(port),
@@ -144,24 +359,29 @@ export async function pyRunApp(): Promise<void> {
     return;
   }
 
-  const args: string[] = ["-m", "shiny", "run"];
+  const args: string[] = [...python.args, "-m", "shiny", "run"];
   args.push("--port", port + "");
   args.push("--reload");
   args.push("--autoreload-port", autoreloadPort + "");
-  args.push(path);
-  const cmdline = escapeCommandForTerminal(terminal, python, args);
+  args.push(...getPythonRunArgs(path));
+  args.push(...pythonAppTargetArgs(appTarget, true));
+  const cmdline = escapeCommandForTerminal(terminal, python.command, args);
   terminal.sendText(cmdline);
 
-  // Clear out the browser. Without this it can be a little confusing as to
-  // whether the app is trying to load or not.
-  await openBrowser("about:blank");
-  // If we start too quickly, openBrowserWhenReady may detect the old Shiny
-  // process (in the process of shutting down), not the new one. Give it a
-  // second. It's a shame to wait an extra second, but it's only when the Play
-  // button is hit, not on autoreload.
-  await new Promise((resolve) => setTimeout(resolve, 1000));
+  registerRunningApp({
+    appPath: path,
+    language: "python",
+    appType,
+    port,
+    autoreloadPort,
+    terminal,
+  });
+
+  await prepareBrowserForLaunch(options);
 
-  if (process.env["CODESPACES"] === "true") {
+  trackAppStartup(path, port, terminal, appTarget.urlPath);
+
+  if (getRemoteUrlStrategy().needsRedirectPort) {
     // Codespaces has a port forwarding system that has an interesting auth
     // system. By default, forwarded ports are private, and each forwarded port
     // is served at a different hostname. Authentication is handled in one of
@@ -174,21 +394,30 @@ export async function pyRunApp(): Promise<void> {
     // get the cookies set. Fortunately, Shiny's autoreload port does nothing
     // but redirect you to the main port.
     //
-    // So that's what we do on Cloudspaces: send the browser to the autoreload
+    // So that's what we do on Codespaces: send the browser to the autoreload
     // port instead of the main port.
     await openBrowserWhenReady(autoreloadPort, [port], terminal);
   } else {
-    // For non-Cloudspace environments, simply go to the main port.
-    await openBrowserWhenReady(port, [autoreloadPort], terminal);
+    // For non-Codespaces environments, simply go to the main port.
+    await openBrowserWhenReady(
+      port,
+      [autoreloadPort],
+      terminal,
+      undefined,
+      appTarget.urlPath
+    );
   }
 }
 
-export async function pyDebugApp(): Promise<void> {
+export async function pyDebugApp(
+  target?: vscode.Uri | string,
+  options: LaunchOptions = {}
+): Promise<void> {
   if (vscode.debug.activeDebugSession?.name === DEBUG_NAME) {
     await vscode.debug.stopDebugging(vscode.debug.activeDebugSession);
   }
 
-  const path = getActiveEditorFile();
+  const path = getAppFile(target);
   if (!path) {
     return;
   }
@@ -197,31 +426,50 @@ export async function pyDebugApp(): Promise<void> {
     return;
   }
 
-  await saveActiveEditorFile();
+  await saveAppFile(path);
 
-  const python = await getSelectedPythonInterpreter();
+  const python = await getSelectedPythonInterpreter(path);
   if (!python) {
     return;
   }
 
-  const port = await getAppPort("debug", "python");
+  // The app is debugged with this interpreter rather than the environment
+  // manager's, see resolvePythonDebugConfiguration()
+  if (
+    !options.isRestart &&
+    !(await checkShinyInstalled(path, "python", { command: python, args: [] }))
+  ) {
+    return;
+  }
 
-  const justMyCode = vscode.workspace
-    .getConfiguration("shiny.python")
-    .get("debugJustMyCode", true);
+  checkAppType(path, "python");
 
-  const cwd = await resolveWorkingDirectory(path);
+  recordAppLaunch({
+    appFile: path,
+    language: "python",
+    mode: "debug",
+    cwd: options.cwd,
+    port: options.port,
+  });
+  await startShinyDebugging(path, options);
+}
 
+/**
+ * Start a `shiny` debug session for an app. ShinyDebugConfigurationProvider
+ * resolves it into a debug configuration for the app's language, with the same
+ * defaults that launch.json configurations get.
+ */
+async function startShinyDebugging(
+  appPath: string,
+  { cwd, port }: LaunchOptions
+): Promise<void> {
   await vscode.debug.startDebugging(undefined, {
-    type: "python",
+    type: SHINY_DEBUG_TYPE,
     name: DEBUG_NAME,
     request: "launch",
-    module: "shiny",
-    args: ["run", "--port", port.toString(), path],
-    cwd: cwd,
-    jinja: true,
-    justMyCode,
-    stopOnEntry: false,
+    appPath,
+    cwd,
+    port,
   });
 
   // Don't spawn browser. We do so in onDidStartDebugSession instead, so when
@@ -231,14 +479,27 @@ export async function pyDebugApp(): Promise<void> {
 
 /* Shiny for R --------------------------------------------------------- */
 
-function buildRConsoleCode(appPath: string, port: number, cwd: string): string {
-  const path = isShinyAppRPart(appPath) ? path_dirname(appPath) : appPath;
+function buildRConsoleCode(
+  appPath: string,
+  port: number,
+  cwd: string,
+  env: Record<string, string>
+): string {
+  const framework = getRAppFrameworkForEntryPoint(appPath);
+  const app = framework
+    ? rFrameworkAppCode(framework)
+    : JSON.stringify(rAppPath(appPath));
   const useDevmode = vscode.workspace
     .getConfiguration("shiny.r")
     .get("devmode");
 
   const lines: string[] = [];
   lines.push(`setwd(${JSON.stringify(cwd)})`);
+  lines.push(...rSetEnvCode(env));
+  const renvProject = findRenvProject(appPath);
+  if (renvProject) {
+    lines.push(rRenvActivateCode(renvProject));
+  }
 
   if (useDevmode) {
     lines.push("shiny::devmode()");
@@ -246,16 +507,39 @@ function buildRConsoleCode(appPath: string, port: number, cwd: string): string {
     lines.push("options(shiny.autoreload = TRUE)");
   }
 
+  const runAppArgs = formatRArgs(getRRunAppArgs(appPath));
   lines.push(
-    `shiny::runApp(${JSON.stringify(path)}, port = ${port}L, launch.browser = FALSE)`
+    `shiny::runApp(${app}, port = ${port}L, launch.browser = FALSE` +
+      (runAppArgs ? `, ${runAppArgs})` : ")")
   );
 
   return lines.join("\n");
 }
 
-export async function rRunApp(): Promise<void> {
+/**
+ * Run a Shiny for R app, in the console in Positron or in a terminal in VS
+ * Code.
+ *
+ * @param target The app file to run. Defaults to the file in the active
+ * editor.
+ * @param options Settings to reuse from an earlier launch, see restartApp().
+ * The console in Positron picks its own port and working directory.
+ */
+export async function rRunApp(
+  target?: vscode.Uri | string,
+  options: LaunchOptions = {}
+): Promise<void> {
   const runAppApi = await getPositronRunAppApi();
   if (runAppApi) {
+    const appFile = getAppFile(target);
+    if (!appFile) {
+      return;
+    }
+    // positron-run-app runs the active document, so show the target first.
+    if (target !== undefined) {
+      await vscode.window.showTextDocument(vscode.Uri.file(appFile));
+    }
+    recordAppLaunch({ appFile, language: "r", mode: "run" });
     return runShinyAppInConsole(runAppApi, {
       language: "r",
       appUrlStrings: ["Listening on {{APP_URL}}"],
@@ -265,83 +549,322 @@ export async function rRunApp(): Promise<void> {
     });
   }
 
-  const pathFile = getActiveEditorFile();
+  const pathFile = getAppFile(target);
   if (!pathFile) {
     return;
   }
 
-  await saveActiveEditorFile();
+  if (!options.isRestart && !(await checkShinyInstalled(pathFile, "r"))) {
+    return;
+  }
+
+  await saveAppFile(pathFile);
+
+  // The entry points of apps in R packages and frameworks run the app from the
+  // project root; other files in the project are run on their own
+  const framework = getRAppFrameworkForEntryPoint(pathFile);
+  const path = rAppPath(pathFile);
+  const appType = checkAppType(pathFile, "r");
 
-  const path = isShinyAppRPart(pathFile) ? path_dirname(pathFile) : pathFile;
+  const port = options.port ?? (await getAppPort("run", "r", path));
+  // Shiny for R has no autoreload port to send the browser through first (see
+  // pyRunApp()), so the extension serves a redirect to the app instead.
+  const redirectPort = getRemoteUrlStrategy().needsRedirectPort
+    ? await getRedirectPort(path)
+    : undefined;
 
-  const port = await getAppPort("run", "r");
-  // TODO: Is this needed for Shiny for R too?
-  // const autoreloadPort = await getAutoreloadPort("run");
+  const cwd = options.cwd ?? (await resolveWorkingDirectory(pathFile));
+  const appEnv = await resolveAppEnvironment(pathFile);
+
+  const extensionRoot = getExtensionPath();
+  if (!extensionRoot) {
+    return;
+  }
+
+  const rscriptBinPath = await getRBinPath("Rscript", pathFile);
+  if (!rscriptBinPath) {
+    vscode.window.showErrorMessage(
+      "Could not find R. Is R installed on your system?" +
+        "If R is installed, please make sure your PATH " +
+        "environment variable is configured correctly."
+    );
+    return;
+  }
 
-  const cwd = await resolveWorkingDirectory(pathFile);
+  recordAppLaunch({ appFile: pathFile, language: "r", mode: "run", cwd, port });
 
   const terminal = await createTerminalAndCloseOthersWithSameName({
-    name: "Shiny",
+    name: appTerminalName(path),
     cwd: cwd,
     env: {
+      ...appEnv,
       // We save this here so escapeCommandForTerminal knows what shell
       // semantics to use when escaping arguments. A bit magical, but oh well.
       ...envVarsForTerminal(),
     },
   });
 
-  // Track this as the active Shiny terminal
-  setActiveShinyTerminal(terminal);
-
-  // Wait until the server port and auto-reload ports are both available.
   if (!(await waitUntilServerPortIsAvailable(port))) {
     vscode.window.showErrorMessage(`Unable to open server port ${port}.`);
     return;
   }
 
+  let redirectServer: vscode.Disposable | undefined;
+  if (redirectPort !== undefined) {
+    redirectServer = await startRedirectServer(
+      path,
+      redirectPort,
+      await getRemoteSafeUrl(port)
+    );
+    if (!redirectServer) {
+      vscode.window.showErrorMessage(
+        `Unable to open redirect port ${redirectPort}.`
+      );
+      return;
+    }
+  }
+
   const useDevmode = vscode.workspace
     .getConfiguration("shiny.r")
     .get("devmode");
 
-  const extensionRoot = getExtensionPath();
-  if (!extensionRoot) {
-    return;
-  }
   const scriptPath = path_join(extensionRoot, "rscripts", "runShinyApp.R");
 
   const args = [scriptPath, path, port + "", useDevmode ? "--devmode" : ""];
+  const runAppArgs = formatRArgs(getRRunAppArgs(pathFile));
+  if (runAppArgs) {
+    args.push(`--runapp-args=${runAppArgs}`);
+  }
+  if (framework) {
+    args.push(`--app=${rFrameworkAppCode(framework)}`);
+  }
+  const renvProject = findRenvProject(pathFile);
+  if (renvProject) {
+    args.push(`--setup=${rRenvActivateCode(renvProject)}`);
+  }
 
-  const rscriptBinPath = await getRBinPath("Rscript");
-  if (!rscriptBinPath) {
+  const cmdline = escapeCommandForTerminal(terminal, rscriptBinPath, args);
+  terminal.sendText(cmdline);
+
+  registerRunningApp({
+    appPath: path,
+    language: "r",
+    appType,
+    port,
+    redirectPort,
+    terminal,
+  });
+  if (redirectServer) {
+    stopWhenAppStops(redirectServer, path, terminal);
+  }
+
+  await prepareBrowserForLaunch(options);
+
+  trackAppStartup(path, port, terminal);
+
+  if (redirectPort !== undefined) {
+    await openBrowserWhenReady(redirectPort, [port], terminal);
+  } else {
+    await openBrowserWhenReady(port, [], terminal);
+  }
+}
+
+/**
+ * Debug a Shiny for R app. In Positron, R apps always run in the console under
+ * the ark debug adapter, so this is the same as running the app. In VS Code,
+ * the app is debugged with the R Debugger extension.
+ */
+export async function rDebugApp(
+  target?: vscode.Uri | string,
+  options: LaunchOptions = {}
+): Promise<void> {
+  if (await getPositronRunAppApi()) {
+    return rRunApp(target, options);
+  }
+
+  if (vscode.debug.activeDebugSession?.name === DEBUG_NAME) {
+    await vscode.debug.stopDebugging(vscode.debug.activeDebugSession);
+  }
+
+  const path = getAppFile(target);
+  if (!path) {
+    return;
+  }
+
+  if (!options.isRestart && !(await checkShinyInstalled(path, "r"))) {
+    return;
+  }
+
+  await saveAppFile(path);
+  checkAppType(path, "r");
+
+  recordAppLaunch({
+    appFile: path,
+    language: "r",
+    mode: "debug",
+    cwd: options.cwd,
+    port: options.port,
+  });
+  await startShinyDebugging(path, options);
+}
+
+/**
+ * Run a Quarto document with `server: shiny` with `quarto serve`, or an R
+ * Markdown document with `runtime: shiny` with `rmarkdown::run()`, in a
+ * terminal.
+ *
+ * @param target The document to run. Defaults to the file in the active
+ * editor.
+ * @param options Settings to reuse from an earlier launch, see restartApp().
+ */
+export async function runInteractiveDocument(
+  target?: vscode.Uri | string,
+  options: LaunchOptions = {}
+): Promise<void> {
+  const path = getAppFile(target);
+  if (!path) {
+    return;
+  }
+
+  await saveAppFile(path);
+
+  let document: InteractiveDocument | undefined;
+  try {
+    document = getInteractiveDocument(path, fs.readFileSync(path, "utf8"));
+  } catch {
+    document = undefined;
+  }
+  if (!document) {
     vscode.window.showErrorMessage(
-      "Could not find R. Is R installed on your system?" +
-        "If R is installed, please make sure your PATH " +
-        "environment variable is configured correctly."
+      `${appLabel(path)} is not an interactive document. Quarto documents ` +
+        "need `server: shiny` and R Markdown documents need `runtime: shiny` " +
+        "in their front matter."
     );
     return;
   }
 
-  const cmdline = escapeCommandForTerminal(terminal, rscriptBinPath, args);
+  const [command, env] =
+    document.kind === "quarto"
+      ? await getQuartoCommand(path, document.language)
+      : [await getRBinPath("Rscript", path), {}];
+  if (!command) {
+    vscode.window.showErrorMessage(
+      document.kind === "quarto"
+        ? "Could not find Quarto. Is Quarto installed on your system? You " +
+            "can set its location with the `quarto.path` setting."
+        : "Could not find R. Is R installed on your system?" +
+            "If R is installed, please make sure your PATH " +
+            "environment variable is configured correctly."
+    );
+    return;
+  }
+
+  const port =
+    options.port ?? (await getAppPort("run", document.language, path));
+  const cwd = options.cwd ?? (await resolveWorkingDirectory(path));
+  const appEnv = await resolveAppEnvironment(path);
+
+  recordAppLaunch({
+    appFile: path,
+    language: document.language,
+    mode: "run",
+    cwd,
+    port,
+  });
+
+  const terminal = await createTerminalAndCloseOthersWithSameName({
+    name: appTerminalName(path),
+    cwd: cwd,
+    env: {
+      ...appEnv,
+      ...env,
+      // We save this here so escapeCommandForTerminal knows what shell
+      // semantics to use when escaping arguments. A bit magical, but oh well.
+      ...envVarsForTerminal(),
+    },
+  });
+
+  if (!(await waitUntilServerPortIsAvailable(port))) {
+    vscode.window.showErrorMessage(`Unable to open server port ${port}.`);
+    return;
+  }
+
+  let args: string[];
+  if (document.kind === "quarto") {
+    args = ["serve", path, "--port", port + "", "--no-browser"];
+  } else {
+    const runAppArgs = formatRArgs(getRRunAppArgs(path));
+    args = [
+      "-e",
+      `rmarkdown::run(${JSON.stringify(path)}, shiny_args = list(` +
+        `port = ${port}L, launch.browser = FALSE` +
+        (runAppArgs ? `, ${runAppArgs}))` : "))"),
+    ];
+  }
+  const cmdline = escapeCommandForTerminal(terminal, command, args);
   terminal.sendText(cmdline);
 
-  // Clear out the browser. Without this it can be a little confusing as to
-  // whether the app is trying to load or not.
-  await openBrowser("about:blank");
-  // If we start too quickly, openBrowserWhenReady may detect the old Shiny
-  // process (in the process of shutting down), not the new one. Give it a
-  // second. It's a shame to wait an extra second, but it's only when the Play
-  // button is hit, not on autoreload.
-  await new Promise((resolve) => setTimeout(resolve, 1000));
+  registerRunningApp({
+    appPath: path,
+    language: document.language,
+    port,
+    terminal,
+  });
+
+  await prepareBrowserForLaunch(options);
+
+  // rmarkdown::run() serves the document next to the others in its directory
+  const urlPath =
+    document.kind === "rmarkdown"
+      ? `/${encodeURIComponent(path_basename(path))}`
+      : "/";
+  trackAppStartup(path, port, terminal, urlPath);
 
-  // if (process.env["CODESPACES"] === "true") {
-  // TODO: Support Codespaces
-  await openBrowserWhenReady(port, [], terminal);
+  await openBrowserWhenReady(port, [], terminal, undefined, urlPath);
+}
+
+/**
+ * The Quarto binary, from the Quarto extension's `quarto.path` setting or the
+ * PATH, and the environment it needs for the document's language.
+ */
+async function getQuartoCommand(
+  documentFile: string,
+  language: "python" | "r"
+): Promise<[string, Record<string, string>]> {
+  const quartoPath =
+    vscode.workspace.getConfiguration("quarto").get<string>("path") || "quarto";
+
+  if (language === "r") {
+    // Like R Markdown documents, run the document's R code with the R selected
+    // for the document, or else the R that apps run with
+    const rscript = await getRBinPath("Rscript", documentFile);
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    return [quartoPath, rscript ? { QUARTO_R: rscript } : {}];
+  }
+
+  // Run the document's Python code with the same Python as apps (see
+  // getPythonCommand()), rather than whichever Python Quarto finds first.
+  const runner = getPythonRunnerCommand(documentFile);
+  const python =
+    getAppRuntime(documentFile, "python") ??
+    (runner
+      ? await getPythonRunnerExecutable(runner)
+      : vscode.extensions.getExtension("ms-python.python")
+        ? await getSelectedPythonInterpreter(documentFile)
+        : false);
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  return [quartoPath, python ? { QUARTO_PYTHON: python } : {}];
 }
 
 interface ConsoleAppOptions {
   language: "python" | "r";
   appUrlStrings: string[];
-  buildCode: (appPath: string, port: number, cwd: string) => string;
+  buildCode: (
+    appPath: string,
+    port: number,
+    cwd: string,
+    env: Record<string, string>
+  ) => string;
   debugAdapterType?: string;
   preview?: PreviewMode | "default";
 }
@@ -357,9 +880,10 @@ async function runShinyAppInConsole(
     debugAdapterType: opts.debugAdapterType,
     async getConsoleCode(_runtime, document, _urlPrefix) {
       const appPath = document.uri.fsPath;
-      const port = await getAppPort("run", opts.language);
+      const port = await getAppPort("run", opts.language, appPath);
       const cwd = await resolveWorkingDirectory(appPath);
-      return { code: opts.buildCode(appPath, port, cwd) };
+      const env = await resolveAppEnvironment(appPath);
+      return { code: opts.buildCode(appPath, port, cwd, env) };
     },
     appUrlStrings: opts.appUrlStrings,
     preview: opts.preview,
@@ -369,44 +893,149 @@ async function runShinyAppInConsole(
 
 /* Utilities --------------------------------------------------------- */
 
-export function onDidStartDebugSession(e: vscode.DebugSession) {
-  // When a debug session starts, check if it's a Shiny session and whether we
-  // can figure out the port number. If so, open a browser.
+/**
+ * Get the preview ready for an app that was just launched in a terminal.
+ */
+async function prepareBrowserForLaunch(options: LaunchOptions): Promise<void> {
+  if (options.isRestart) {
+    // Keep showing the old preview until the app is back, at the same URL.
+    // There's no need to wait for the old Shiny process to shut down: the app
+    // is only launched once its port is available again.
+    return;
+  }
 
-  const { type, name } = e.configuration;
-  const args = e.configuration.args as string[] | undefined;
+  // Clear out the browser. Without this it can be a little confusing as to
+  // whether the app is trying to load or not.
+  await openBrowser("about:blank");
+  // If we start too quickly, openBrowserWhenReady may detect the old Shiny
+  // process (in the process of shutting down), not the new one. Give it a
+  // second. It's a shame to wait an extra second, but it's only when the Play
+  // button is hit, not on autoreload.
+  await new Promise((resolve) => setTimeout(resolve, 1000));
+}
 
-  // It's not a Shiny session
-  if (type !== "python" || name !== DEBUG_NAME) {
-    return;
+/**
+ * Tell what kind of app an app file holds (see classifyShinyApp()), and warn
+ * about likely mistakes in it. The app is launched either way, since the
+ * classification is only a guess.
+ */
+function checkAppType(
+  appFile: string,
+  language: "python" | "r"
+): ShinyAppType | undefined {
+  let content: string;
+  try {
+    content = fs.readFileSync(appFile, "utf8");
+  } catch {
+    return undefined;
   }
 
-  // No arguments are present
-  if (!args) {
-    return;
+  const app = classifyShinyApp(appFile, language, content);
+  for (const warning of app?.warnings ?? []) {
+    vscode.window.showWarningMessage(`${appLabel(appFile)}: ${warning}`);
   }
+  return app?.type;
+}
 
-  const idxPortFlag = args.indexOf("--port");
-  // No --port flag is present, or it's the last argument
-  if (idxPortFlag < 0 || idxPortFlag === args.length - 1) {
+/**
+ * Dispose of something that belongs to a run of an app, once that run has
+ * ended: when its terminal is closed, the app stops or the app is run again.
+ */
+function stopWhenAppStops(
+  disposable: vscode.Disposable,
+  appPath: string,
+  terminal: vscode.Terminal
+): void {
+  const subscription = onDidChangeRunningApps(() => {
+    if (getRunningApp(appPath)?.terminal !== terminal) {
+      subscription.dispose();
+      disposable.dispose();
+    }
+  });
+}
+
+/**
+ * The app path for an app file, as used in the running app registry: the
+ * project root for the entry points of R apps in a package or framework, the
+ * directory of multi-file R apps, otherwise the file itself.
+ */
+export function appPathForFile(appFile: string): string {
+  return path_normalize(/\.r$/i.test(appFile) ? rAppPath(appFile) : appFile);
+}
+
+function rAppPath(appFile: string): string {
+  return (
+    getRAppFrameworkForEntryPoint(appFile)?.root ??
+    (isShinyAppRPart(appFile) ? path_dirname(appFile) : appFile)
+  );
+}
+
+// How long to keep watching for a launched app to start listening on its port.
+// This is deliberately much longer than shiny.timeoutOpenBrowser, because the
+// app status is also shown when the preview isn't opened automatically.
+const APP_STARTUP_TRACKING_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * In the background, wait for a newly launched app to answer on its port (at
+ * `urlPath`), and then mark it as running in the registry.
+ */
+function trackAppStartup(
+  appPath: string,
+  port: number,
+  terminal?: vscode.Terminal,
+  urlPath: string = "/"
+): void {
+  waitUntilShinyAppIsResponding(port, APP_STARTUP_TRACKING_TIMEOUT, {
+    path: urlPath,
+  })
+    .then((isResponding) => {
+      if (isResponding) {
+        setRunningAppStatus(appPath, "running", { terminal });
+      }
+    })
+    .catch((err) => {
+      console.warn("[shiny] Failed to track app startup", err);
+    });
+}
+
+export function onDidStartDebugSession(e: vscode.DebugSession) {
+  // When a debug session starts, check if it's a Shiny session and whether we
+  // can figure out the port number. If so, open a browser.
+
+  // It's not a Shiny session
+  const appPath = getShinyDebugAppPath(e.configuration);
+  if (appPath === undefined) {
     return;
   }
 
-  const portStr = args[idxPortFlag + 1];
-  // Port number is not a number
-  if (!/^\d+$/.test(portStr)) {
+  updateDebugAppLaunch(appPath, e.configuration);
+
+  const port = getShinyDebugAppPort(e.configuration);
+  const urlPath = getShinyDebugAppUrlPath(e.configuration);
+  // No port is known
+  if (port === undefined) {
     return;
   }
 
-  const port = parseInt(portStr);
   // Port might be 0 which means random assignment--we don't ever set the port
   // to 0 in our code but I guess it's theoretically possible that a user could.
   if (port <= 0) {
     return;
   }
 
+  // Child sessions, e.g. of subprocesses, belong to the app of their parent
+  if (!e.parentSession) {
+    registerRunningApp({
+      appPath,
+      language: e.configuration.type === "python" ? "python" : "r",
+      port,
+      debugSession: e,
+    });
+    trackAppStartup(appPath, port, undefined, urlPath);
+  }
+
   // Finally have a valid port number! Open a browser.
-  openBrowserWhenReady(port).catch((err) => {
+  openBrowserWhenReady(port, [], undefined, undefined, urlPath).catch((err) => {
     console.warn("Failed to open browser", err);
   });
 }
@@ -471,11 +1100,51 @@ async function checkForPythonExtension(): Promise<boolean> {
   return false;
 }
 
+/**
+ * Gets the command that runs Python for an app: the runtime selected for the
+ * app (see selectAppRuntime()), the environment manager of the app's project,
+ * like `uv run python` (see `shiny.python.runner`), or else the selected
+ * Python interpreter.
+ *
+ * @param appFile The app file, or undefined to use the first workspace folder.
+ * @returns The command, with the arguments to put before Python's own
+ * arguments, or false if there's no way to run Python.
+ */
+export async function getPythonCommand(
+  appFile?: string
+): Promise<{ command: string; args: string[] } | false> {
+  const appRuntime = appFile ? getAppRuntime(appFile, "python") : undefined;
+  if (appRuntime) {
+    return { command: appRuntime, args: [] };
+  }
+
+  const runner = getPythonRunnerCommand(appFile);
+  if (runner) {
+    return runner;
+  }
+
+  if (!(await checkForPythonExtension())) {
+    return false;
+  }
+  const python = await getSelectedPythonInterpreter(appFile);
+  return python ? { command: python, args: [] } : false;
+}
+
 /**
  * Gets the currently selected Python interpreter, according to the Python extension.
+ * @param appFile The app to get the interpreter for. The runtime selected for
+ * the app wins, otherwise the Python extension's interpreter for the app's
+ * folder is used. Defaults to the file in the active editor.
  * @returns A path, or false if no interpreter is selected.
  */
-export async function getSelectedPythonInterpreter(): Promise<string | false> {
+export async function getSelectedPythonInterpreter(
+  appFile?: string
+): Promise<string | false> {
+  const appRuntime = appFile ? getAppRuntime(appFile, "python") : undefined;
+  if (appRuntime) {
+    return appRuntime;
+  }
+
   // Gather details of the current Python interpreter. We want to make sure
   // only to re-use a terminal if it's using the same interpreter.
   const pythonAPI: PythonExtension = await PythonExtension.api();
@@ -483,7 +1152,9 @@ export async function getSelectedPythonInterpreter(): Promise<string | false> {
   // The getActiveEnvironmentPath docstring says: "Note that this can be an
   // invalid environment, use resolveEnvironment to get full details."
   const unresolvedEnv = pythonAPI.environments.getActiveEnvironmentPath(
-    vscode.window.activeTextEditor?.document.uri
+    appFile
+      ? vscode.Uri.file(appFile)
+      : vscode.window.activeTextEditor?.document.uri
   );
   const resolvedEnv =
     await pythonAPI.environments.resolveEnvironment(unresolvedEnv);
@@ -507,13 +1178,32 @@ function getActiveEditorFile(): string | undefined {
   return appPath;
 }
 
+function getAppFile(target?: vscode.Uri | string): string | undefined {
+  if (target instanceof vscode.Uri) {
+    return target.fsPath;
+  }
+  if (typeof target === "string") {
+    return target;
+  }
+  return getActiveEditorFile();
+}
+
+async function saveAppFile(appPath: string): Promise<void> {
+  const document = vscode.workspace.textDocuments.find(
+    (doc) => doc.uri.fsPath === appPath
+  );
+  if (document?.isDirty) {
+    await document.save();
+  }
+}
+
 async function saveActiveEditorFile(): Promise<void> {
   if (vscode.window.activeTextEditor?.document.isDirty) {
     await vscode.window.activeTextEditor?.document.save();
   }
 }
 
-function getExtensionPath(): string | undefined {
+export function getExtensionPath(): string | undefined {
   const extensionPath =
     vscode.extensions.getExtension("Posit.shiny")?.extensionPath;
   if (!extensionPath) {
@@ -525,13 +1215,19 @@ function getExtensionPath(): string | undefined {
   return extensionPath;
 }
 
-export async function getRBinPath(bin: string): Promise<string> {
+export async function getRBinPath(
+  bin: string,
+  appFile?: string
+): Promise<string> {
   // Try multiple methods to find R, in order of preference:
+  // 0. The R selected for the app (see selectAppRuntime())
   // 1. Positron's preferred runtime (Positron only)
   // 2. VS Code R extension config (VS Code only)
   // 3. System PATH
   // 4. Windows Registry (Windows only)
+  const appRuntime = appFile ? getAppRuntime(appFile, "r") : undefined;
   return (
+    (appRuntime ? rBinPathForRuntime(appRuntime, bin) : "") ||
     (await getRPathFromPositron(bin)) ||
     getRPathFromConfig(bin) ||
     getRPathFromEnv(bin) ||
@@ -540,6 +1236,40 @@ export async function getRBinPath(bin: string): Promise<string> {
   );
 }
 
+/**
+ * Find all R installations, using the same methods as getRBinPath(), for the
+ * user to choose from.
+ *
+ * @returns The paths of the `R` executables, and how each was found.
+ */
+export async function findRInstallations(): Promise<
+  { path: string; source: string }[]
+> {
+  const found = [
+    { path: await getRPathFromPositron("R"), source: "Positron" },
+    { path: getRPathFromConfig("R"), source: "r.rpath setting" },
+    ...getRPathsFromEnv("R").map((path) => ({ path, source: "PATH" })),
+    { path: await getRPathFromWindowsReg("R"), source: "Windows registry" },
+  ];
+
+  const seen = new Set<string>();
+  return found.filter(({ path }) => {
+    if (!path || seen.has(path_normalize(path))) {
+      return false;
+    }
+    seen.add(path_normalize(path));
+    return true;
+  });
+}
+
+// The path of another R executable, like Rscript, next to the R executable of
+// a runtime
+function rBinPathForRuntime(rPath: string, bin: string): string {
+  const fileExt = process.platform === "win32" ? ".exe" : "";
+  const binPath = path_join(path_dirname(rPath), bin + fileExt);
+  return fs.existsSync(binPath) ? binPath : "";
+}
+
 // Positron only: Get R path from Positron's preferred runtime
 async function getRPathFromPositron(bin: string): Promise<string> {
   const runtimeMetadata = await getPositronPreferredRuntime("r");
@@ -586,22 +1316,22 @@ function getRPathFromConfig(bin: string): string {
 }
 
 function getRPathFromEnv(bin: string = "R"): string {
+  return getRPathsFromEnv(bin)[0] ?? "";
+}
+
+// All R executables on the PATH, in order
+function getRPathsFromEnv(bin: string): string[] {
   const { platform } = process;
   const splitChr = platform === "win32" ? ";" : ":";
   const fileExt = platform === "win32" ? ".exe" : "";
 
   if (!process.env.PATH) {
-    return "";
-  }
-
-  for (const envPath of process.env.PATH.split(splitChr)) {
-    const rBinPath = path_join(envPath, bin + fileExt);
-    if (fs.existsSync(rBinPath)) {
-      return rBinPath;
-    }
+    return [];
   }
 
-  return "";
+  return process.env.PATH.split(splitChr)
+    .map((envPath) => path_join(envPath, bin + fileExt))
+    .filter((rBinPath) => fs.existsSync(rBinPath));
 }
 
 async function getRPathFromWindowsReg(bin: string = "R"): Promise<string> {
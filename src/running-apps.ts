@@ -0,0 +1,331 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import type { ShinyAppType } from "./app-type";
+
+// =============================================================================
+// Running App Registry
+// -----------------------------------------------------------------------------
+// Several Shiny apps can run side by side, each in its own terminal (or debug
+// session) and on its own port. This module keeps track of them, keyed by the
+// app path that was passed to Shiny (the app file, or the app directory for
+// multi-file R apps).
+// =============================================================================
+
+export type RunningAppLanguage = "python" | "r";
+
+/**
+ * - `starting`: the app was launched but isn't listening on its port yet.
+ * - `running`: the app is listening on its port.
+ * - `crashed`: the app process exited with an error; its terminal is still
+ *   open so that the user can inspect the output.
+ * - `exited`: the app process ended, but shell integration couldn't tell how,
+ *   e.g. because it was killed; its terminal is still open.
+ */
+export type RunningAppStatus = "starting" | "running" | "crashed" | "exited";
+
+export interface RunningApp {
+  /** Absolute path of the app file or multi-file R app directory. */
+  appPath: string;
+  language: RunningAppLanguage;
+  /** The kind of app, if it could be told from the app file. */
+  appType?: ShinyAppType;
+  port: number;
+  autoreloadPort?: number;
+  /**
+   * Port of the extension's redirect server for the app, for Shiny for R apps
+   * in environments where previews go through a redirect (see
+   * redirect-server.ts).
+   */
+  redirectPort?: number;
+  /** The terminal that runs the app, unless the app is being debugged. */
+  terminal?: vscode.Terminal;
+  /** The debug session of an app that is being debugged. */
+  debugSession?: vscode.DebugSession;
+  status: RunningAppStatus;
+  /** Exit code of the app process, when `status` is `crashed`. */
+  exitCode?: number;
+  /**
+   * The most recent output of the app process, if the terminal has shell
+   * integration. Used to explain why an app crashed.
+   */
+  output?: string;
+}
+
+// How much of the most recent app output to keep, in characters
+const MAX_OUTPUT_LENGTH = 8000;
+
+// Terminal escape sequences, like colors, cursor movements and window titles
+const TERMINAL_ESCAPE_SEQUENCE_REGEX =
+  // eslint-disable-next-line no-control-regex
+  /\x1b(?:\[[0-?]*[ -/]*[@-~]|\][^\x07\x1b]*(?:\x07|\x1b\\)|[@-Z\\-_])/g;
+
+const runningApps = new Map<string, RunningApp>();
+
+const runningAppsChangeEmitter = new vscode.EventEmitter<void>();
+
+/**
+ * Fires whenever an app is added to or removed from the registry, or its
+ * status changes.
+ */
+export const onDidChangeRunningApps = runningAppsChangeEmitter.event;
+
+const appOutputEmitter = new vscode.EventEmitter<{
+  app: RunningApp;
+  data: string;
+}>();
+
+/**
+ * Fires with each chunk of output of a running app, if its terminal has shell
+ * integration. The data may contain terminal escape sequences.
+ */
+export const onDidReceiveAppOutput = appOutputEmitter.event;
+
+// Callback to notify when app running state changes
+let onAppRunningStateChange: ((running: boolean) => void) | undefined;
+
+/**
+ * Set a callback to be notified when the app running state changes. The
+ * callback receives `true` while at least one app is running.
+ */
+export function setAppRunningStateChangeCallback(
+  callback: (running: boolean) => void
+): void {
+  onAppRunningStateChange = callback;
+}
+
+function notifyRunningAppsChanged(): void {
+  onAppRunningStateChange?.(runningApps.size > 0);
+  runningAppsChangeEmitter.fire();
+}
+
+/**
+ * Check if any Shiny app is currently running, or if `appPath` is given, if
+ * that specific app is running.
+ */
+export function isAppRunning(appPath?: string): boolean {
+  if (appPath === undefined) {
+    return runningApps.size > 0;
+  }
+  return runningApps.has(normalizeAppPath(appPath));
+}
+
+/** Get the running app for `appPath`, if any. */
+export function getRunningApp(appPath: string): RunningApp | undefined {
+  return runningApps.get(normalizeAppPath(appPath));
+}
+
+/** Get all running apps, in the order they were started. */
+export function getRunningApps(): RunningApp[] {
+  return [...runningApps.values()];
+}
+
+/**
+ * Add an app to the registry in the `starting` state, replacing any previous
+ * entry for the same app path.
+ */
+export function registerRunningApp(
+  app: Omit<RunningApp, "status" | "exitCode" | "output">
+): void {
+  const key = normalizeAppPath(app.appPath);
+  // Re-insert so that the registry stays ordered by start time
+  runningApps.delete(key);
+  runningApps.set(key, { ...app, appPath: key, status: "starting" });
+  notifyRunningAppsChanged();
+}
+
+/**
+ * Update the status of a running app. Ignored if the app isn't registered, or
+ * if `terminal` is given and the app is now running in a different terminal
+ * (i.e. it was restarted in the meantime).
+ */
+export function setRunningAppStatus(
+  appPath: string,
+  status: RunningAppStatus,
+  { terminal, exitCode }: { terminal?: vscode.Terminal; exitCode?: number } = {}
+): void {
+  const app = getRunningApp(appPath);
+  if (!app || (terminal && app.terminal !== terminal)) {
+    return;
+  }
+  if (app.status === status && app.exitCode === exitCode) {
+    return;
+  }
+  app.status = status;
+  app.exitCode = exitCode;
+  notifyRunningAppsChanged();
+}
+
+/**
+ * Stop a running app by disposing its terminal, or stopping its debug session.
+ * The terminal close and debug session handlers remove the app from the
+ * registry.
+ */
+export function stopRunningApp(appPath: string): void {
+  const app = getRunningApp(appPath);
+  if (app) {
+    stopApp(app);
+  }
+}
+
+/** Stop all running apps. */
+export function stopAllRunningApps(): void {
+  for (const app of getRunningApps()) {
+    stopApp(app);
+  }
+}
+
+function stopApp(app: RunningApp): void {
+  if (app.debugSession) {
+    vscode.debug.stopDebugging(app.debugSession);
+  } else {
+    app.terminal?.dispose();
+  }
+}
+
+/**
+ * Ports that are in use by running apps, optionally excluding the app at
+ * `exceptAppPath` (which is typically about to be restarted).
+ */
+export function getPortsInUse(exceptAppPath?: string): number[] {
+  const except = exceptAppPath ? normalizeAppPath(exceptAppPath) : undefined;
+  return getRunningApps()
+    .filter((app) => app.appPath !== except)
+    .flatMap((app) =>
+      [app.port, app.autoreloadPort, app.redirectPort].filter(
+        (port): port is number => port !== undefined
+      )
+    );
+}
+
+/**
+ * Register a listener to remove apps from the registry when their terminal is
+ * closed. This should be called once during extension activation.
+ */
+export function registerTerminalCloseHandler(): vscode.Disposable {
+  return vscode.window.onDidCloseTerminal((closedTerminal) => {
+    for (const [key, app] of runningApps) {
+      if (app.terminal === closedTerminal) {
+        runningApps.delete(key);
+        notifyRunningAppsChanged();
+      }
+    }
+  });
+}
+
+/**
+ * Register a listener to remove debugged apps from the registry when their
+ * debug session ends. This should be called once during extension activation.
+ */
+export function registerDebugSessionTerminateHandler(): vscode.Disposable {
+  return vscode.debug.onDidTerminateDebugSession((session) => {
+    for (const [key, app] of runningApps) {
+      if (app.debugSession === session) {
+        runningApps.delete(key);
+        notifyRunningAppsChanged();
+      }
+    }
+  });
+}
+
+/**
+ * Register listeners that follow the app command in a Shiny terminal: while it
+ * runs, its most recent output is kept; when it finishes while the terminal
+ * stays open, the app is marked as crashed if the command failed, as exited if
+ * its exit status is unknown, or removed from the registry if it ended
+ * normally (e.g. after Ctrl+C). Requires terminal shell integration.
+ */
+export function registerTerminalShellExecutionHandler(): vscode.Disposable {
+  const onStart = vscode.window.onDidStartTerminalShellExecution((e) => {
+    const app = getAppForShellExecution(e);
+    if (app) {
+      captureOutput(app, e.execution).catch((err) => {
+        console.warn("[shiny] Failed to read app output", err);
+      });
+    }
+  });
+
+  const onEnd = vscode.window.onDidEndTerminalShellExecution((e) => {
+    const app = getAppForShellExecution(e);
+    if (!app) {
+      return;
+    }
+
+    // The exit code is unknown when the process was killed, or the shell
+    // integration couldn't report it. That may be a crash, so keep the app.
+    if (e.exitCode === undefined) {
+      setRunningAppStatus(app.appPath, "exited", { terminal: e.terminal });
+    } else if (e.exitCode !== 0 && e.exitCode !== 130) {
+      // 130 is the exit code for SIGINT, i.e. the user pressed Ctrl+C
+      setRunningAppStatus(app.appPath, "crashed", {
+        terminal: e.terminal,
+        exitCode: e.exitCode,
+      });
+    } else {
+      runningApps.delete(app.appPath);
+      notifyRunningAppsChanged();
+    }
+  });
+
+  return vscode.Disposable.from(onStart, onEnd);
+}
+
+function getAppForShellExecution(e: {
+  terminal: vscode.Terminal;
+  execution: vscode.TerminalShellExecution;
+}): RunningApp | undefined {
+  // Ignore other commands, like the Python extension activating a virtual
+  // environment when the terminal is created. Interactive documents are run
+  // with `quarto serve` or `rmarkdown::run()`.
+  if (!/shiny|quarto|rmarkdown/i.test(e.execution.commandLine.value)) {
+    return undefined;
+  }
+  return getRunningApps().find((x) => x.terminal === e.terminal);
+}
+
+async function captureOutput(
+  app: RunningApp,
+  execution: vscode.TerminalShellExecution
+): Promise<void> {
+  for await (const data of execution.read()) {
+    app.output = ((app.output ?? "") + data).slice(-MAX_OUTPUT_LENGTH);
+    appOutputEmitter.fire({ app, data });
+  }
+}
+
+/**
+ * The last lines of an app's output, without terminal escape sequences and
+ * blank lines.
+ */
+export function getLastOutputLines(app: RunningApp, count: number): string[] {
+  return stripTerminalEscapeSequences(app.output ?? "")
+    .split(/\r?\n|\r/)
+    .map((line) => line.trimEnd())
+    .filter((line) => line !== "")
+    .slice(-count);
+}
+
+/** Removes terminal escape sequences, like colors, from terminal output. */
+export function stripTerminalEscapeSequences(text: string): string {
+  return text.replace(TERMINAL_ESCAPE_SEQUENCE_REGEX, "");
+}
+
+/**
+ * A short, human-readable label for an app: its workspace-relative path, or
+ * its file name if it's outside of the workspace.
+ */
+export function appLabel(appPath: string): string {
+  const relative = vscode.workspace.asRelativePath(appPath, false);
+  return path.isAbsolute(relative) ? path.basename(appPath) : relative;
+}
+
+/**
+ * The name of the terminal that runs an app. Each app gets its own terminal
+ * name, so that starting one app doesn't close the terminals of the others.
+ */
+export function appTerminalName(appPath: string): string {
+  return `Shiny: ${appLabel(appPath)}`;
+}
+
+function normalizeAppPath(appPath: string): string {
+  return path.normalize(appPath);
+}
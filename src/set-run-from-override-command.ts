@@ -25,9 +25,15 @@ export async function setRunFromOverride(): Promise<void> {
   }
 
   if (!isShinyAppFilename(appFilePath, languageId)) {
-    vscode.window.showErrorMessage(
-      "Active file is not a recognized Shiny app file"
+    const action = await vscode.window.showErrorMessage(
+      "Active file is not a recognized Shiny app file. Add its name to the " +
+        "`shiny.appFilePatterns` setting, or always treat it as an app.",
+      "Always Treat as Shiny App"
     );
+    if (action === "Always Treat as Shiny App") {
+      await vscode.commands.executeCommand("shiny.alwaysTreatAsApp");
+      return setRunFromOverride();
+    }
     return;
   }
 
@@ -0,0 +1,103 @@
+import { isBinary } from "istextorbinary";
+import * as lzstring from "lz-string";
+import * as path from "path";
+import type { ShinyliveFile } from "./shinylive";
+
+// =============================================================================
+// Shinylive Files
+// -----------------------------------------------------------------------------
+// Shinylive apps hold their files as strings: text files as they are, and
+// binary files, like images, fonts and `.rds` or `.parquet` data, base64-encoded
+// with `type: "binary"`. Shiny Assistant's files use the same format. These
+// functions convert between files' bytes and Shinylive files, and between
+// Shinylive files and the `code` of Shinylive links, so that every file comes
+// back with the same bytes.
+// =============================================================================
+
+/**
+ * Create a Shinylive file from a file's bytes.
+ *
+ * @param name The file's name, relative to the app directory.
+ * @param bytes The file's bytes.
+ * @returns A text file, or a base64-encoded binary file.
+ */
+export function shinyliveFileFromBytes(
+  name: string,
+  bytes: Uint8Array
+): ShinyliveFile {
+  const buffer = Buffer.from(bytes);
+  // Files with an extension that isn't known to be text or binary, like `.rds`
+  // or `.parquet`, are checked by their content. Files that aren't valid UTF-8,
+  // like a Latin-1 CSV file, would change as text, so they're binary too.
+  const content = buffer.toString("utf8");
+  if (isBinary(name, buffer) || !Buffer.from(content, "utf8").equals(buffer)) {
+    return { name, content: buffer.toString("base64"), type: "binary" };
+  }
+
+  // Save some characters by relying on the implicit type "text" default
+  return { name, content };
+}
+
+/**
+ * The bytes of a Shinylive file.
+ *
+ * @param file A Shinylive file, or a file of Shiny Assistant.
+ * @returns The decoded base64 content of binary files, or the UTF-8 content of
+ * text files.
+ */
+export function shinyliveFileBytes(
+  file: Pick<ShinyliveFile, "content" | "type">
+): Buffer {
+  return Buffer.from(file.content, file.type === "binary" ? "base64" : "utf8");
+}
+
+/**
+ * Encode Shinylive files as the `code` of a Shinylive link.
+ *
+ * @param files The app's files.
+ * @returns The LZ-compressed JSON of the files.
+ */
+export function shinyliveCodeEncode(files: ShinyliveFile[]): string {
+  return lzstring.compressToEncodedURIComponent(JSON.stringify(files));
+}
+
+/**
+ * Decode the `code` of a Shinylive link into Shinylive files.
+ *
+ * @param code The LZ-compressed JSON of the files.
+ * @returns The app's files, with normalized names, or `undefined` if the code
+ * can't be decoded or any of its files is malformed.
+ */
+export function shinyliveCodeDecode(code: string): ShinyliveFile[] | undefined {
+  const filesJson = lzstring.decompressFromEncodedURIComponent(code);
+  if (!filesJson) {
+    return;
+  }
+
+  let files: unknown;
+  try {
+    files = JSON.parse(filesJson);
+  } catch {
+    return;
+  }
+  if (!Array.isArray(files) || !files.every(isShinyliveFile)) {
+    return;
+  }
+
+  return files.map((file) => ({
+    ...file,
+    name: path.normalize(file.name),
+  }));
+}
+
+function isShinyliveFile(file: unknown): file is ShinyliveFile {
+  if (typeof file !== "object" || file === null) {
+    return false;
+  }
+  const { name, content, type } = file as Record<string, unknown>;
+  return (
+    typeof name === "string" &&
+    typeof content === "string" &&
+    (type === undefined || type === "text" || type === "binary")
+  );
+}
@@ -0,0 +1,258 @@
+import { parsePythonImports, parseRPackages } from "./app-dependencies";
+import type { ShinyliveFile, ShinyliveLanguage } from "./shinylive";
+
+// =============================================================================
+// Shinylive Preflight
+// -----------------------------------------------------------------------------
+// Shinylive links put the whole app in the URL, and the app runs in the
+// browser with Pyodide (Python) or webR (R). Before a link is created, the
+// user gets a report of what could go wrong: URLs that are too long to share
+// in chat apps or to open in some browsers, large files that inflate the URL,
+// and packages that won't load in the browser. The package lists are a
+// best-effort guide, not a complete index of Pyodide's or webR's packages.
+// =============================================================================
+
+/**
+ * Where long URLs stop working, from shortest to longest. Shinylive keeps the
+ * app in the URL's hash, which isn't sent to the server, so only the places
+ * the link is pasted into and the browser's own limits matter.
+ */
+export const SHINYLIVE_URL_LIMITS: [limit: number, where: string][] = [
+  [2000, "Discord messages"],
+  [28000, "Microsoft Teams messages"],
+  [40000, "Slack messages"],
+  [65536, "Firefox's address bar"],
+  [2 * 1024 * 1024, "Chrome and Edge"],
+];
+
+/** Files larger than this are pointed out as inflating the link. */
+export const SHINYLIVE_LARGE_FILE_BYTES = 50 * 1024;
+
+/**
+ * The places that a Shinylive URL of a given length is too long for.
+ *
+ * @param length The length of the URL.
+ */
+export function shinyliveUrlLimitsExceeded(length: number): string[] {
+  return SHINYLIVE_URL_LIMITS.filter(([limit]) => length > limit).map(
+    ([, where]) => where
+  );
+}
+
+/** Whether a package is known to load in Pyodide or webR. */
+export type ShinylivePackageStatus = "available" | "unavailable" | "unknown";
+
+export interface ShinylivePackage {
+  /** The Python module or R package, as used in the code. */
+  name: string;
+  status: ShinylivePackageStatus;
+  /** Why the package is unavailable. */
+  reason?: string;
+}
+
+const DATABASE_DRIVER =
+  "database drivers need network connections that the browser doesn't allow";
+const NO_BROWSER =
+  "it starts a web browser of its own, which can't run in the browser";
+
+// Python modules that are known not to load in Pyodide, and why
+const PYODIDE_UNAVAILABLE = new Map<string, string>([
+  ["asyncpg", DATABASE_DRIVER],
+  ["cx_Oracle", DATABASE_DRIVER],
+  ["jax", "it isn't built for Pyodide"],
+  ["MySQLdb", DATABASE_DRIVER],
+  ["oracledb", DATABASE_DRIVER],
+  ["playwright", NO_BROWSER],
+  ["psycopg", DATABASE_DRIVER],
+  ["psycopg2", DATABASE_DRIVER],
+  ["pymongo", DATABASE_DRIVER],
+  ["pymysql", DATABASE_DRIVER],
+  ["pyodbc", DATABASE_DRIVER],
+  ["selenium", NO_BROWSER],
+  ["tensorflow", "it isn't built for Pyodide"],
+  ["tkinter", "there is no desktop GUI in the browser"],
+  ["torch", "it isn't built for Pyodide"],
+  ["turtle", "there is no desktop GUI in the browser"],
+  ["uvloop", "it isn't built for Pyodide"],
+]);
+
+// The public modules of Python's standard library (`sys.stdlib_module_names`)
+// in the Python version of Pyodide, without those that Pyodide leaves out,
+// like `venv`, or that are Windows-only. Some of them, like `threading` and
+// `socket`, can be imported but don't work fully in the browser.
+const PYTHON_STDLIB_MODULES = `
+__future__ abc aifc antigravity argparse array ast asyncio atexit audioop
+base64 bdb binascii bisect builtins bz2 cProfile calendar cgi cgitb chunk
+cmath cmd code codecs codeop collections colorsys compileall concurrent
+configparser contextlib contextvars copy copyreg crypt csv ctypes curses
+dataclasses datetime dbm decimal difflib dis doctest email encodings enum
+errno faulthandler fcntl filecmp fileinput fnmatch fractions ftplib
+functools gc genericpath getopt getpass gettext glob graphlib grp gzip
+hashlib heapq hmac html http imaplib imghdr importlib inspect io ipaddress
+itertools json keyword linecache locale logging lzma mailbox mailcap
+marshal math mimetypes mmap modulefinder multiprocessing netrc nis nntplib
+ntpath nturl2path numbers opcode operator optparse os ossaudiodev pathlib
+pdb pickle pickletools pipes pkgutil platform plistlib poplib posix
+posixpath pprint profile pstats pty pwd py_compile pyclbr pydoc pydoc_data
+pyexpat queue quopri random re readline reprlib resource rlcompleter runpy
+sched secrets select selectors shelve shlex shutil signal site smtplib
+sndhdr socket socketserver spwd sqlite3 sre_compile sre_constants sre_parse
+ssl stat statistics string stringprep struct subprocess sunau symtable sys
+sysconfig syslog tabnanny tarfile telnetlib tempfile termios textwrap this
+threading time timeit token tokenize tomllib trace traceback tracemalloc
+tty types typing unicodedata unittest urllib uu uuid warnings wave weakref
+webbrowser wsgiref xdrlib xml xmlrpc zipapp zipfile zipimport zlib zoneinfo
+`
+  .trim()
+  .split(/\s+/);
+
+// Python modules that are known to load in Pyodide: the standard library,
+// Pyodide's own packages and pure-Python packages from PyPI that Shiny apps
+// often use
+const PYODIDE_AVAILABLE = new Set([
+  ...PYTHON_STDLIB_MODULES,
+  // Packages
+  "altair",
+  "bs4",
+  "faicons",
+  "great_tables",
+  "htmltools",
+  "ipyleaflet",
+  "lxml",
+  "matplotlib",
+  "networkx",
+  "nltk",
+  "numpy",
+  "openpyxl",
+  "pandas",
+  "PIL",
+  "plotly",
+  "pyarrow",
+  "regex",
+  "scipy",
+  "seaborn",
+  "shapely",
+  "shiny",
+  "shinyswatch",
+  "shinywidgets",
+  "sklearn",
+  "statsmodels",
+  "sympy",
+  "yaml",
+]);
+
+// R packages that are known not to load in webR, and why
+const WEBR_UNAVAILABLE = new Map<string, string>([
+  ["keras", "it isn't built for webR"],
+  ["mongolite", DATABASE_DRIVER],
+  ["odbc", DATABASE_DRIVER],
+  ["reticulate", "there is no Python installation in the browser"],
+  ["rJava", "there is no Java in the browser"],
+  ["RMariaDB", DATABASE_DRIVER],
+  ["RMySQL", DATABASE_DRIVER],
+  ["RODBC", DATABASE_DRIVER],
+  ["ROracle", DATABASE_DRIVER],
+  ["RPostgres", DATABASE_DRIVER],
+  ["RPostgreSQL", DATABASE_DRIVER],
+  ["sparklyr", "it needs a Spark cluster"],
+  ["tcltk", "there is no desktop GUI in the browser"],
+  ["tensorflow", "it isn't built for webR"],
+  ["torch", "it isn't built for webR"],
+]);
+
+// R packages that are known to load in webR: base R and packages from the
+// webR repository that Shiny apps often use
+const WEBR_AVAILABLE = new Set([
+  // Base R
+  "base",
+  "compiler",
+  "datasets",
+  "graphics",
+  "grDevices",
+  "grid",
+  "methods",
+  "splines",
+  "stats",
+  "stats4",
+  "tools",
+  "utils",
+  // Packages
+  "bsicons",
+  "bslib",
+  "dplyr",
+  "DT",
+  "forcats",
+  "ggplot2",
+  "glue",
+  "htmltools",
+  "jsonlite",
+  "lubridate",
+  "munsell",
+  "palmerpenguins",
+  "plotly",
+  "purrr",
+  "readr",
+  "scales",
+  "shiny",
+  "stringr",
+  "tibble",
+  "tidyr",
+]);
+
+/**
+ * Check the packages that a Shinylive app's code uses against the lists of
+ * packages that are known to load, or not to load, in the browser. Only
+ * Python files of Python apps and R files of R apps are checked, and the app's
+ * own modules, like `utils.py` for `import utils`, are skipped.
+ *
+ * @param files The app's files.
+ * @param language The app's language.
+ * @returns The packages that each file uses, keyed by file name, for the files
+ * that use packages.
+ */
+export function checkShinylivePackages(
+  files: ShinyliveFile[],
+  language: ShinyliveLanguage
+): Map<string, ShinylivePackage[]> {
+  const codeFile = language === "py" ? /\.py$/i : /\.r$/i;
+  const localModules = new Set(
+    files
+      .filter((file) => /\.py$/i.test(file.name))
+      .map((file) => file.name.split(/[\\/]/)[0].replace(/\.py$/i, ""))
+  );
+  const unavailable =
+    language === "py" ? PYODIDE_UNAVAILABLE : WEBR_UNAVAILABLE;
+  const available = language === "py" ? PYODIDE_AVAILABLE : WEBR_AVAILABLE;
+
+  const result = new Map<string, ShinylivePackage[]>();
+  for (const file of files) {
+    if (file.type === "binary" || !codeFile.test(file.name)) {
+      continue;
+    }
+    const names =
+      language === "py"
+        ? parsePythonImports(file.content)
+            .filter((module) => !module.startsWith("."))
+            .map((module) => module.split(".")[0])
+            .filter((module) => !localModules.has(module))
+        : parseRPackages(file.content);
+    if (names.length === 0) {
+      continue;
+    }
+
+    result.set(
+      file.name,
+      [...new Set(names)].map((name): ShinylivePackage => {
+        const reason = unavailable.get(name);
+        if (reason) {
+          return { name, status: "unavailable", reason };
+        }
+        return {
+          name,
+          status: available.has(name) ? "available" : "unknown",
+        };
+      })
+    );
+  }
+  return result;
+}
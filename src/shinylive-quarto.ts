@@ -0,0 +1,191 @@
+import type { ShinyliveFile, ShinyliveLanguage } from "./shinylive";
+
+// =============================================================================
+// Shinylive Quarto Chunks
+// -----------------------------------------------------------------------------
+// The shinylive Quarto extension embeds apps in documents as code blocks, with
+// each of the app's files in a `## file:` section:
+//
+//     ```{shinylive-python}
+//     #| standalone: true
+//     #| components: [editor, viewer]
+//     #| layout: vertical
+//     #| viewerHeight: 420
+//
+//     ## file: app.py
+//     from shiny.express import ui
+//     ...
+//
+//     ## file: logo.png
+//     ## type: binary
+//     iVBORw0KGgo...
+//     ```
+//
+// These functions convert between such code blocks and Shinylive files.
+// =============================================================================
+
+/** The options of a shinylive code block. */
+export interface ShinyliveQuartoOptions {
+  components: ("editor" | "viewer")[];
+  layout?: "horizontal" | "vertical";
+  viewerHeight?: number;
+}
+
+/** A shinylive code block in a document. */
+export interface ShinyliveQuartoChunk {
+  language: ShinyliveLanguage;
+  files: ShinyliveFile[];
+  /** The line of the opening fence, zero-based. */
+  startLine: number;
+  /** The line of the closing fence, zero-based. */
+  endLine: number;
+}
+
+const CHUNK_ENGINES: Record<ShinyliveLanguage, string> = {
+  py: "shinylive-python",
+  r: "shinylive-r",
+};
+
+/**
+ * Create a shinylive code block for Quarto from an app's files.
+ *
+ * @param files The app's files, with the app file first.
+ * @param language The app's language.
+ * @param options The code block's options.
+ * @returns The code block, ending with a newline.
+ */
+export function shinyliveQuartoChunk(
+  files: ShinyliveFile[],
+  language: ShinyliveLanguage,
+  options: ShinyliveQuartoOptions
+): string {
+  // The fence must be longer than any run of backticks in the files
+  const longestBackticks = Math.max(
+    0,
+    ...files
+      .flatMap((file) => file.content.match(/`+/g) ?? [])
+      .map((backticks) => backticks.length)
+  );
+  const fence = "`".repeat(Math.max(3, longestBackticks + 1));
+
+  const lines = [
+    fence + "{" + CHUNK_ENGINES[language] + "}",
+    "#| standalone: true",
+    `#| components: [${options.components.join(", ")}]`,
+  ];
+  if (options.layout) {
+    lines.push(`#| layout: ${options.layout}`);
+  }
+  if (options.viewerHeight) {
+    lines.push(`#| viewerHeight: ${options.viewerHeight}`);
+  }
+  lines.push("");
+
+  for (const file of files) {
+    lines.push(`## file: ${file.name}`);
+    if (file.type === "binary") {
+      lines.push("## type: binary", file.content, "");
+    } else {
+      // Each line of the content is a line of the block, so a file that ends
+      // with a newline is followed by a blank line, and a file that doesn't
+      // isn't (see parseChunkFiles())
+      lines.push(...file.content.split(/\r?\n/));
+    }
+  }
+  lines.push(fence);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Find the shinylive code blocks in a document.
+ *
+ * @param text The document's text.
+ * @returns The code blocks, in the order they appear.
+ */
+export function findShinyliveQuartoChunks(
+  text: string
+): ShinyliveQuartoChunk[] {
+  const lines = text.split(/\r?\n/);
+  const chunks: ShinyliveQuartoChunk[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const open = /^(`{3,})\s*\{shinylive-(python|r)\b[^}]*\}\s*$/.exec(
+      lines[i]
+    );
+    if (!open) {
+      continue;
+    }
+    const fence = open[1];
+    const end = lines.findIndex(
+      (line, index) =>
+        index > i && line.trim().startsWith(fence) && /^`+$/.test(line.trim())
+    );
+    if (end < 0) {
+      break;
+    }
+
+    const language = open[2] === "python" ? "py" : "r";
+    chunks.push({
+      language,
+      files: parseChunkFiles(lines.slice(i + 1, end), language),
+      startLine: i,
+      endLine: end,
+    });
+    i = end;
+  }
+  return chunks;
+}
+
+// The files of a code block's body. Code blocks without `## file:` sections
+// hold only the app file. A text file's content is its lines up to the next
+// `## file:` or the closing fence, so the blank line after a file is its final
+// newline.
+function parseChunkFiles(
+  body: string[],
+  language: ShinyliveLanguage
+): ShinyliveFile[] {
+  // The options only come before the code
+  const optionLines = body.findIndex((line) => !line.startsWith("#|"));
+  const code = optionLines < 0 ? [] : body.slice(optionLines);
+  const files: ShinyliveFile[] = [];
+  let current: { file: ShinyliveFile; lines: string[] } | undefined;
+
+  const finish = () => {
+    if (!current) {
+      return;
+    }
+    current.file.content =
+      current.file.type === "binary"
+        ? current.lines.join("").trim()
+        : current.lines.join("\n");
+    files.push(current.file);
+  };
+
+  for (const line of code) {
+    const fileHeader = /^## file:\s*(.+?)\s*$/.exec(line);
+    if (fileHeader) {
+      finish();
+      current = { file: { name: fileHeader[1], content: "" }, lines: [] };
+      continue;
+    }
+    const typeHeader = /^## type:\s*(text|binary)\s*$/.exec(line);
+    if (typeHeader && current && current.lines.length === 0) {
+      if (typeHeader[1] === "binary") {
+        current.file.type = "binary";
+      }
+      continue;
+    }
+    if (!current) {
+      if (line.trim() === "") {
+        continue;
+      }
+      current = {
+        file: { name: language === "py" ? "app.py" : "app.R", content: "" },
+        lines: [],
+      };
+    }
+    current.lines.push(line);
+  }
+  finish();
+  return files;
+}
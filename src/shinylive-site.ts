@@ -0,0 +1,152 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { ShinyliveFile, ShinyliveLanguage } from "./shinylive";
+
+// =============================================================================
+// Static Shinylive Sites
+// -----------------------------------------------------------------------------
+// A static Shinylive site runs an app without a server: `index.html` from the
+// export template of the Shinylive assets, the app's files in `app.json`, and
+// a copy of the assets (`shinylive/` and `shinylive-sw.js`). The assets come
+// from a local directory, such as the cache that `shinylive assets download`
+// fills, which holds one `shinylive-<version>` directory per version.
+// =============================================================================
+
+// The files of a Shinylive assets directory that a static site needs
+const SHINYLIVE_SITE_ASSETS = ["shinylive", "shinylive-sw.js"];
+
+/**
+ * Write a static Shinylive site: `index.html` from the assets' export
+ * template, `app.json` with the app's files, and a copy of the assets.
+ *
+ * @param files The app's files.
+ * @param language The app's language.
+ * @param assetsDir The Shinylive assets directory.
+ * @param outputDir The directory of the site.
+ */
+export async function shinyliveWriteSite(
+  files: ShinyliveFile[],
+  language: ShinyliveLanguage,
+  assetsDir: string,
+  outputDir: string
+): Promise<void> {
+  const template = await fs.promises.readFile(
+    path.join(assetsDir, "export_template", "index.html"),
+    "utf8"
+  );
+
+  // The placeholders of the export template, see `shinylive export`
+  const templateParams: Record<string, string> = {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    REL_PATH: "",
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    APP_ENGINE: language === "py" ? "python" : "r",
+    title: "Shiny app",
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    include_in_head: "",
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    include_before_body: "",
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    include_after_body: "",
+  };
+  const html = template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) =>
+    key in templateParams ? templateParams[key] : match
+  );
+
+  // Shinylive reads `type` from app.json, so include it for text files too
+  const appJson = JSON.stringify(
+    files.map((file) => ({ ...file, type: file.type ?? "text" }))
+  );
+
+  await fs.promises.mkdir(outputDir, { recursive: true });
+  await fs.promises.writeFile(path.join(outputDir, "index.html"), html);
+  await fs.promises.writeFile(path.join(outputDir, "app.json"), appJson);
+  for (const asset of SHINYLIVE_SITE_ASSETS) {
+    await fs.promises.cp(
+      path.join(assetsDir, asset),
+      path.join(outputDir, asset),
+      { recursive: true, force: true }
+    );
+  }
+}
+
+/**
+ * Find the Shinylive assets in a directory: the directory itself, or the
+ * latest `shinylive-<version>` directory in a cache directory.
+ *
+ * @param dir The assets directory, or a cache directory.
+ * @returns The assets directory, or `undefined` if there are no assets.
+ */
+export async function findShinyliveAssets(
+  dir: string
+): Promise<string | undefined> {
+  if (await isShinyliveAssetsDir(dir)) {
+    return dir;
+  }
+
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  const versions = entries
+    .filter((entry) => entry.isDirectory() && /^shinylive-\d/.test(entry.name))
+    .map((entry) => entry.name)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .reverse();
+  for (const name of versions) {
+    const versionDir = path.join(dir, name);
+    if (await isShinyliveAssetsDir(versionDir)) {
+      return versionDir;
+    }
+  }
+  return;
+}
+
+async function isShinyliveAssetsDir(dir: string): Promise<boolean> {
+  for (const file of [...SHINYLIVE_SITE_ASSETS, "export_template/index.html"]) {
+    try {
+      await fs.promises.access(path.join(dir, file));
+    } catch {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * A report of the size of each file of a Shinylive app, and of the files
+ * together in `app.json`. Binary files are larger in `app.json` because they
+ * are base64-encoded.
+ *
+ * @param files The app's files.
+ * @returns The report, one line per file.
+ */
+export function shinyliveSizeReport(files: ShinyliveFile[]): string {
+  const nameWidth = Math.max(...files.map((file) => file.name.length), 8);
+  const lines = files.map((file) => {
+    const size = Buffer.byteLength(file.content, "utf8");
+    const note =
+      file.type === "binary"
+        ? ` (binary, ${formatFileSize(Buffer.from(file.content, "base64").length)} on disk)`
+        : "";
+    return `  ${file.name.padEnd(nameWidth)}  ${formatFileSize(size).padStart(9)}${note}`;
+  });
+  const total = Buffer.byteLength(JSON.stringify(files), "utf8");
+  lines.push(
+    `  ${"app.json".padEnd(nameWidth)}  ${formatFileSize(total).padStart(9)}`
+  );
+  return lines.join("\n");
+}
+
+/** A file size for people, e.g. `12.3 KB`. */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -1,10 +1,32 @@
-import { isBinary } from "istextorbinary";
-import * as lzstring from "lz-string";
+import * as os from "os";
 import * as path from "path";
 import * as vscode from "vscode";
 import { isShinyAppFilename } from "./extension";
-
-type ShinyliveFile = {
+import {
+  shinyliveCodeDecode,
+  shinyliveCodeEncode,
+  shinyliveFileBytes,
+  shinyliveFileFromBytes,
+} from "./shinylive-files";
+import {
+  checkShinylivePackages,
+  SHINYLIVE_LARGE_FILE_BYTES,
+  shinyliveUrlLimitsExceeded,
+  type ShinylivePackage,
+} from "./shinylive-preflight";
+import {
+  findShinyliveQuartoChunks,
+  shinyliveQuartoChunk,
+  type ShinyliveQuartoOptions,
+} from "./shinylive-quarto";
+import {
+  findShinyliveAssets,
+  formatFileSize,
+  shinyliveSizeReport,
+  shinyliveWriteSite,
+} from "./shinylive-site";
+
+export type ShinyliveFile = {
   name: string;
   content: string;
   type?: "text" | "binary";
@@ -12,7 +34,7 @@ type ShinyliveFile = {
 
 type UserOpenAction = "open" | "copy";
 type ShinyliveMode = "app" | "editor";
-type ShinyliveLanguage = "r" | "py";
+export type ShinyliveLanguage = "r" | "py";
 
 type ShinyliveBundle = {
   language: ShinyliveLanguage;
@@ -95,9 +117,14 @@ async function createAndOpenShinyliveLink(
     return;
   }
 
+  const reviewedFiles = await askUserToReviewBundle({ language, files, mode });
+  if (!reviewedFiles) {
+    return;
+  }
+
   const url = shinyliveUrlEncode({
     language,
-    files,
+    files: reviewedFiles,
     mode,
   });
 
@@ -116,6 +143,129 @@ async function createAndOpenShinyliveLink(
   return url;
 }
 
+interface BundleFileQuickPickItem extends vscode.QuickPickItem {
+  file: ShinyliveFile;
+}
+
+/**
+ * Show a preflight report of a Shinylive link before it's created: the length
+ * of the URL and where it is too long to be shared or opened, the size of each
+ * file, and the packages that won't load in the browser. The user can leave
+ * out files to make the link shorter. The report is skipped for single-file
+ * apps with a short link and no package problems.
+ *
+ * @async
+ * @param {ShinyliveBundle} bundle The app to create a link for.
+ * @returns {Promise<ShinyliveFile[] | undefined>} The files to include, or
+ * `undefined` if the user cancelled.
+ */
+async function askUserToReviewBundle(
+  bundle: ShinyliveBundle
+): Promise<ShinyliveFile[] | undefined> {
+  const { files, language } = bundle;
+  const packages = checkShinylivePackages(files, language);
+  const hasUnavailablePackages = [...packages.values()].some((filePackages) =>
+    filePackages.some(({ status }) => status === "unavailable")
+  );
+  const urlLength = (selected: ShinyliveFile[]) =>
+    shinyliveUrlEncode({ ...bundle, files: selected }).length;
+
+  if (
+    files.length === 1 &&
+    !hasUnavailablePackages &&
+    shinyliveUrlLimitsExceeded(urlLength(files)).length === 0
+  ) {
+    return files;
+  }
+
+  const totalSize = files.reduce(
+    (total, file) => total + Buffer.byteLength(file.content, "utf8"),
+    0
+  );
+  const items = files.map((file, index): BundleFileQuickPickItem => {
+    const size = Buffer.byteLength(file.content, "utf8");
+    const notes = [formatFileSize(size)];
+    if (index === 0) {
+      notes.push("app file, always included");
+    }
+    if (file.type === "binary") {
+      notes.push("binary, base64-encoded");
+    }
+    if (size > SHINYLIVE_LARGE_FILE_BYTES && files.length > 1) {
+      notes.push(
+        `$(warning) ${Math.round((size / totalSize) * 100)}% of the app`
+      );
+    }
+    return {
+      label: `${file.type === "binary" ? "$(file-binary)" : "$(file)"} ${file.name}`,
+      description: notes.join(" · "),
+      detail: formatPackageNotes(packages.get(file.name) ?? [], language),
+      picked: true,
+      file,
+    };
+  });
+
+  const quickPick = vscode.window.createQuickPick<BundleFileQuickPickItem>();
+  quickPick.canSelectMany = true;
+  quickPick.matchOnDescription = true;
+  quickPick.items = items;
+  quickPick.selectedItems = items;
+
+  const update = () => {
+    const selected = selectedBundleFiles(files, quickPick.selectedItems);
+    const length = urlLength(selected);
+    const exceeded = shinyliveUrlLimitsExceeded(length);
+    quickPick.title = `Shinylive link: ${length.toLocaleString()} characters`;
+    quickPick.placeholder =
+      exceeded.length > 0
+        ? `Too long for ${exceeded.join(", ")}. Uncheck files to leave them out.`
+        : "Short enough for chat apps and browsers. Uncheck files to leave them out.";
+  };
+  update();
+  quickPick.onDidChangeSelection(update);
+
+  const accepted = await new Promise<boolean>((resolve) => {
+    quickPick.onDidAccept(() => resolve(true));
+    quickPick.onDidHide(() => resolve(false));
+    quickPick.show();
+  });
+  const selected = selectedBundleFiles(files, quickPick.selectedItems);
+  quickPick.dispose();
+
+  return accepted ? selected : undefined;
+}
+
+// The app file is always included, and the files keep their order
+function selectedBundleFiles(
+  files: ShinyliveFile[],
+  selectedItems: readonly BundleFileQuickPickItem[]
+): ShinyliveFile[] {
+  const selected = new Set(selectedItems.map((item) => item.file));
+  return files.filter((file, index) => index === 0 || selected.has(file));
+}
+
+function formatPackageNotes(
+  packages: ShinylivePackage[],
+  language: ShinyliveLanguage
+): string | undefined {
+  const runtime = language === "py" ? "Pyodide" : "webR";
+  const notes = packages
+    .filter(({ status }) => status === "unavailable")
+    .map(
+      ({ name, reason }) =>
+        `$(error) ${name} won't load in ${runtime}: ${reason}`
+    );
+  const unknown = packages
+    .filter(({ status }) => status === "unknown")
+    .map(({ name }) => name);
+  if (unknown.length > 0) {
+    notes.push(
+      `$(question) Not known to load in ${runtime}: ${unknown.join(", ")}`
+    );
+  }
+  return notes.length > 0 ? notes.join(" · ") : undefined;
+}
+
 /**
  * Command: Save a Shiny app from a Shinylive link.
  *
@@ -150,15 +300,25 @@ export async function shinyliveSaveAppFromUrl(
     return;
   }
 
-  const { files, language } = bundle;
-
-  if (files.length < 1) {
+  if (bundle.files.length < 1) {
     vscode.window.showErrorMessage(
       "Shinylive: The provided link did not contain any files."
     );
     return;
   }
 
+  await shinyliveSaveApp(bundle.files);
+}
+
+/**
+ * Ask the user where to save a Shinylive app's files, write them and open the
+ * app file. When the app would change files that already exist there, the user
+ * reviews the changes first and chooses which files to save.
+ *
+ * @async
+ * @param {ShinyliveFile[]} files The app's files, with the app file first.
+ */
+async function shinyliveSaveApp(files: ShinyliveFile[]): Promise<void> {
   if (filesAreNotContainedSingleDir(files)) {
     return;
   }
@@ -182,21 +342,163 @@ export async function shinyliveSaveAppFromUrl(
     return;
   }
 
-  const localFiles = await shinyliveWriteFiles(
-    files,
-    outputDir,
-    files.length > 1 // confirmOverwrite: vscode save dialog will have asked already
-  );
+  const changedFiles = await askUserToReviewLocalChanges(files, outputDir);
+  if (!changedFiles) {
+    return;
+  }
+
+  if (changedFiles.length > 0) {
+    const localFiles = await shinyliveWriteFiles(
+      changedFiles,
+      outputDir,
+      false // confirmOverwrite: the user has reviewed the changed files
+    );
+    if (localFiles.length === 0) {
+      return;
+    }
+  }
 
-  if (localFiles.length === 0) {
+  // The app file may be unchanged, or the user may have chosen not to save it
+  const appFile = vscode.Uri.joinPath(outputDir, files[0].name);
+  if (!(await pathExists(appFile))) {
     return;
   }
 
-  const doc = await vscode.workspace.openTextDocument(localFiles[0]);
+  const doc = await vscode.workspace.openTextDocument(appFile);
 
   await vscode.window.showTextDocument(doc, undefined, false);
 }
 
+// The label of the diff editor tab that compares a Shinylive app with the
+// local files
+const SHINYLIVE_CHANGES_TAB_LABEL = "Shinylive app changes";
+
+// The files of Shinylive apps that are compared with local files, keyed by the
+// path of their `shinylive-app:` URI
+const SHINYLIVE_APP_SCHEME = "shinylive-app";
+const shinyliveAppFiles = new Map<string, string>();
+
+// Each comparison gets its own URIs, so VS Code doesn't show the contents of
+// an earlier one
+let shinyliveChangesCounter = 0;
+
+/**
+ * Register the provider of the `shinylive-app:` documents that the diff editor
+ * shows for a Shinylive app's files. This should be called once during
+ * extension activation.
+ *
+ * @returns {vscode.Disposable} The provider's registration.
+ */
+export function registerShinyliveAppFiles(): vscode.Disposable {
+  return vscode.workspace.registerTextDocumentContentProvider(
+    SHINYLIVE_APP_SCHEME,
+    {
+      provideTextDocumentContent: (uri) =>
+        shinyliveAppFiles.get(uri.path) ?? "",
+    }
+  );
+}
+
+/**
+ * Compare a Shinylive app's files with the files in the output directory. When
+ * existing files would change, show the changes in a multi-file diff editor
+ * and ask the user which of the new and changed files to save.
+ *
+ * @async
+ * @param {ShinyliveFile[]} files The app's files.
+ * @param {vscode.Uri} outputDir The directory where the files will be saved.
+ * @returns {Promise<ShinyliveFile[] | undefined>} The files to write: the new
+ * and changed files, or the ones the user chose. Files that are the same as
+ * the local files are left out. `undefined` if the user cancelled.
+ */
+async function askUserToReviewLocalChanges(
+  files: ShinyliveFile[],
+  outputDir: vscode.Uri
+): Promise<ShinyliveFile[] | undefined> {
+  const changes: {
+    file: ShinyliveFile;
+    localUri: vscode.Uri;
+    exists: boolean;
+  }[] = [];
+
+  for (const file of files) {
+    const localUri = vscode.Uri.joinPath(outputDir, file.name);
+    let localBytes: Uint8Array | undefined;
+    try {
+      localBytes = await vscode.workspace.fs.readFile(localUri);
+    } catch {
+      // The file doesn't exist yet
+    }
+    if (!localBytes || !shinyliveFileBytes(file).equals(localBytes)) {
+      changes.push({ file, localUri, exists: localBytes !== undefined });
+    }
+  }
+
+  if (!changes.some(({ exists }) => exists)) {
+    return changes.map(({ file }) => file);
+  }
+
+  // Binary files can't be compared in the diff editor, but are listed below
+  const reviewDir = `/${++shinyliveChangesCounter}`;
+  const diffs: [vscode.Uri, vscode.Uri, vscode.Uri][] = [];
+  for (const { file, localUri, exists } of changes) {
+    if (file.type === "binary") {
+      continue;
+    }
+    const appUri = vscode.Uri.from({
+      scheme: SHINYLIVE_APP_SCHEME,
+      path: `${reviewDir}/${file.name}`,
+    });
+    shinyliveAppFiles.set(appUri.path, file.content);
+    // New files are compared with an empty document
+    const originalUri = exists
+      ? localUri
+      : vscode.Uri.from({
+          scheme: SHINYLIVE_APP_SCHEME,
+          path: `${reviewDir}-empty/${file.name}`,
+        });
+    diffs.push([localUri, originalUri, appUri]);
+  }
+
+  if (diffs.length > 0) {
+    await vscode.commands.executeCommand(
+      "vscode.changes",
+      SHINYLIVE_CHANGES_TAB_LABEL,
+      diffs
+    );
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    changes.map(({ file, exists }) => ({
+      label: file.name,
+      description: !exists
+        ? "new file"
+        : file.type === "binary"
+          ? "changed binary file"
+          : "changed",
+      picked: true,
+      file,
+    })),
+    {
+      title: "Which files should be saved from the Shinylive app?",
+      placeHolder:
+        "Review the changes in the diff editor. Unselected files are left as they are.",
+      canPickMany: true,
+      ignoreFocusOut: true,
+    }
+  );
+
+  const tabs = vscode.window.tabGroups.all
+    .flatMap((group) => group.tabs)
+    .filter((tab) => tab.label.startsWith(SHINYLIVE_CHANGES_TAB_LABEL));
+  await vscode.window.tabGroups.close(tabs);
+  for (const [, , appUri] of diffs) {
+    shinyliveAppFiles.delete(appUri.path);
+  }
+
+  return selected?.map(({ file }) => file);
+}
+
 function filesAreNotContainedSingleDir(files: ShinyliveFile[]): boolean {
   const bad = files.map((f) => f.name).filter((nm) => nm.startsWith(".."));
 
@@ -233,6 +535,30 @@ export async function shinyliveCreateFromExplorer(
   _activatedFile: vscode.Uri,
   selectedFiles: vscode.Uri[]
 ): Promise<void> {
+  const app = await shinyliveFilesFromUris(selectedFiles);
+  if (!app) {
+    return;
+  }
+
+  await createAndOpenShinyliveLink(app.files, app.language);
+}
+
+/**
+ * Read the files of a Shinylive app from the selected files or directories.
+ * Binary files are base64-encoded, and the Shiny app file comes first, named
+ * `app.py` or `app.R`.
+ *
+ * @async
+ * @param {vscode.Uri[]} selectedFiles The files or directories of the app.
+ * @returns {Promise<{ files: ShinyliveFile[]; language: ShinyliveLanguage } |
+ * undefined>} The app's files and language, or `undefined` if the selection
+ * doesn't contain a Shiny app.
+ */
+async function shinyliveFilesFromUris(
+  selectedFiles: vscode.Uri[]
+): Promise<
+  { files: ShinyliveFile[]; language: ShinyliveLanguage } | undefined
+> {
   const allFiles: vscode.Uri[] = [];
   for (const file of selectedFiles) {
     const expanded = await readDirectoryRecursively(file);
@@ -277,7 +603,6 @@ export async function shinyliveCreateFromExplorer(
 
   const files = await Promise.all(
     allFilesSorted.map(async (file: vscode.Uri): Promise<ShinyliveFile> => {
-      const type = isBinary(file.fsPath) ? "binary" : "text";
       let name = pathRelativeToRootDir(file);
 
       // Primary file needs to be `app.R` or `app.py` (or ui/server.R)
@@ -290,23 +615,11 @@ export async function shinyliveCreateFromExplorer(
       }
 
       const contentRaw = await vscode.workspace.fs.readFile(file);
-      const content =
-        type === "binary"
-          ? Buffer.from(contentRaw).toString("base64")
-          : Buffer.from(contentRaw).toString();
-
-      switch (type) {
-        case "binary":
-          return { name, content, type };
-
-        default:
-          // Save some characters by relying on the implicit type "text" default
-          return { name, content };
-      }
+      return shinyliveFileFromBytes(name, contentRaw);
     })
   );
 
-  await createAndOpenShinyliveLink(files, isPythonApp ? "py" : "r");
+  return { files, language: isPythonApp ? "py" : "r" };
 }
 
 /**
@@ -349,6 +662,443 @@ async function readDirectoryRecursively(
   return files;
 }
 
+/**
+ * Command: Export an app to a static Shinylive site.
+ *
+ * This command writes a folder that can be published to any static host, like
+ * GitHub Pages: an `index.html` that runs the app, the app's files in
+ * `app.json`, and the Shinylive assets (`shinylive/` and `shinylive-sw.js`),
+ * copied from a local assets directory such as the cache that `shinylive
+ * assets download` fills. Unlike Shinylive links, the app's size isn't limited
+ * by the length of a URL.
+ *
+ * When invoked from the Explorer, the selected files and directories are
+ * exported, like with `shinyliveCreateFromExplorer()`. Otherwise the app in
+ * the active editor is exported.
+ *
+ * @export
+ * @async
+ * @param {vscode.Uri} [activatedFile] The file that was right-clicked to
+ * activate the command.
+ * @param {vscode.Uri[]} [selectedFiles] The files that were selected in the
+ * Explorer.
+ */
+export async function shinyliveExportSite(
+  activatedFile?: vscode.Uri,
+  selectedFiles?: vscode.Uri[]
+): Promise<void> {
+  const app = await shinyliveFilesFromSelection(
+    activatedFile,
+    selectedFiles,
+    "export it"
+  );
+  if (!app) {
+    return;
+  }
+
+  const assetsDir = await askUserForAssetsDirectory(app.language);
+  if (!assetsDir) {
+    return;
+  }
+
+  const outputDir = await askUserForOutputDirectory(
+    "Choose a directory for the static Shinylive site"
+  );
+  if (!outputDir) {
+    return;
+  }
+  if (
+    !(await askUserToConfirmOverwrite(
+      vscode.Uri.joinPath(outputDir, "index.html")
+    ))
+  ) {
+    return;
+  }
+
+  try {
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Exporting the app to a static Shinylive site...",
+      },
+      () =>
+        shinyliveWriteSite(
+          app.files,
+          app.language,
+          assetsDir.fsPath,
+          outputDir.fsPath
+        )
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Shinylive failed to export the app to "${outputDir.fsPath}". ${error}`
+    );
+    return;
+  }
+
+  const report = shinyliveSizeReport(app.files);
+  const channel = getShinyliveOutputChannel();
+  channel.appendLine(`Exported a static Shinylive site to ${outputDir.fsPath}`);
+  channel.appendLine(`Shinylive assets: ${assetsDir.fsPath}`);
+  channel.appendLine(report);
+  channel.appendLine("");
+  channel.show(true);
+
+  vscode.window.showInformationMessage(
+    `Shinylive: Exported the app to "${outputDir.fsPath}". Serve the directory with a static web server to run it.`
+  );
+}
+
+/**
+ * Read the files of a Shinylive app from the files or directories selected in
+ * the Explorer or, when the command wasn't run from the Explorer, from the
+ * file in the active editor.
+ *
+ * @async
+ * @param {vscode.Uri} [activatedFile] The file that was right-clicked to
+ * activate the command.
+ * @param {vscode.Uri[]} [selectedFiles] The files that were selected in the
+ * Explorer.
+ * @param {string} purpose What the command does with the app, for the error
+ * message when there is no app, e.g. `"export it"`.
+ */
+async function shinyliveFilesFromSelection(
+  activatedFile: vscode.Uri | undefined,
+  selectedFiles: vscode.Uri[] | undefined,
+  purpose: string
+): Promise<
+  { files: ShinyliveFile[]; language: ShinyliveLanguage } | undefined
+> {
+  const selection = selectedFiles ?? (activatedFile ? [activatedFile] : []);
+  if (selection.length === 0) {
+    const document = vscode.window.activeTextEditor?.document;
+    if (!document || document.isUntitled) {
+      vscode.window.showErrorMessage(
+        `Shinylive: open a Shiny app file or select the app's files in the Explorer to ${purpose}.`
+      );
+      return;
+    }
+    if (document.isDirty) {
+      await document.save();
+    }
+    selection.push(document.uri);
+  }
+
+  return await shinyliveFilesFromUris(selection);
+}
+
+let shinyliveOutputChannel: vscode.OutputChannel | undefined;
+
+function getShinyliveOutputChannel(): vscode.OutputChannel {
+  shinyliveOutputChannel ??= vscode.window.createOutputChannel("Shinylive");
+  return shinyliveOutputChannel;
+}
+
+/**
+ * Find the Shinylive assets directory, from the `shiny.shinylive.assetsPath`
+ * setting or by asking the user. The directory may also be a cache directory
+ * with one or more versions of the assets, e.g. `~/.cache/shinylive`, in which
+ * case the latest version is used.
+ *
+ * @async
+ * @param {ShinyliveLanguage} language The app's language, which decides where
+ * the file dialog starts: in the cache of the Python or the R `shinylive`
+ * package.
+ * @returns {Promise<vscode.Uri | undefined>} The assets directory, or
+ * `undefined` if the user cancelled or the directory has no assets.
+ */
+async function askUserForAssetsDirectory(
+  language: ShinyliveLanguage
+): Promise<vscode.Uri | undefined> {
+  const assetsPath = vscode.workspace
+    .getConfiguration("shiny.shinylive")
+    .get<string>("assetsPath");
+
+  let dir: vscode.Uri | undefined;
+  if (assetsPath) {
+    dir = vscode.Uri.file(assetsPath);
+  } else {
+    let defaultUri: vscode.Uri | undefined;
+    for (const cacheDir of shinyliveCacheDirs(language)) {
+      if (await pathExists(cacheDir)) {
+        defaultUri = cacheDir;
+        break;
+      }
+    }
+    const picked = await vscode.window.showOpenDialog({
+      defaultUri,
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      openLabel: "Use Assets",
+      title:
+        "Choose the Shinylive assets directory " +
+        "(set shiny.shinylive.assetsPath to skip this step)",
+    });
+    dir = picked?.[0];
+  }
+  if (!dir) {
+    return;
+  }
+
+  const assetsDir = await findShinyliveAssets(dir.fsPath);
+  if (!assetsDir) {
+    vscode.window.showErrorMessage(
+      `Shinylive: "${dir.fsPath}" doesn't contain Shinylive assets. ` +
+        "Choose a directory with `shinylive-sw.js`, `shinylive/` and " +
+        "`export_template/`, e.g. one downloaded with `shinylive assets download`."
+    );
+    return;
+  }
+  return vscode.Uri.file(assetsDir);
+}
+
+// Where the Python and R `shinylive` packages cache their assets
+function shinyliveCacheDirs(language: ShinyliveLanguage): vscode.Uri[] {
+  const home = os.homedir();
+  const localAppData =
+    process.env.LOCALAPPDATA ?? path.join(home, "AppData", "Local");
+  const xdgCache = process.env.XDG_CACHE_HOME ?? path.join(home, ".cache");
+
+  let dirs: string[];
+  if (process.platform === "win32") {
+    dirs = [
+      path.join(localAppData, "shinylive", "Cache"),
+      path.join(localAppData, "R", "cache", "R", "shinylive"),
+    ];
+  } else if (process.platform === "darwin") {
+    dirs = [
+      path.join(home, "Library", "Caches", "shinylive"),
+      path.join(home, "Library", "Caches", "org.R-project.R", "R", "shinylive"),
+    ];
+  } else {
+    dirs = [
+      path.join(xdgCache, "shinylive"),
+      path.join(xdgCache, "R", "shinylive"),
+    ];
+  }
+  if (language === "r") {
+    dirs.reverse();
+  }
+  return dirs.map((dir) => vscode.Uri.file(dir));
+}
+
+/**
+ * Command: Create a shinylive code block for a Quarto document.
+ *
+ * The code block holds the app's files from the files or directories selected
+ * in the Explorer, or from the file in the active editor, in `## file:`
+ * sections. The user chooses the block's components, layout and viewer height,
+ * and whether to copy the block or to insert it into an open Quarto document.
+ *
+ * @export
+ * @async
+ * @param {vscode.Uri} [activatedFile] The file that was right-clicked to
+ * activate the command.
+ * @param {vscode.Uri[]} [selectedFiles] The files that were selected in the
+ * Explorer.
+ */
+export async function shinyliveCreateQuartoChunk(
+  activatedFile?: vscode.Uri,
+  selectedFiles?: vscode.Uri[]
+): Promise<void> {
+  const app = await shinyliveFilesFromSelection(
+    activatedFile,
+    selectedFiles,
+    "create a Quarto chunk"
+  );
+  if (!app) {
+    return;
+  }
+
+  const options = await askUserForQuartoOptions();
+  if (!options) {
+    return;
+  }
+
+  const chunk = shinyliveQuartoChunk(app.files, app.language, options);
+
+  // Insert into the active Quarto document, or into one that is open next to
+  // the app file
+  const editor = [
+    vscode.window.activeTextEditor,
+    ...vscode.window.visibleTextEditors,
+  ].find((editor) => editor && isQuartoDocument(editor.document));
+
+  let action: "insert" | "copy" = "copy";
+  if (editor) {
+    const picked = await vscode.window.showQuickPick(
+      [
+        {
+          label: `Insert into ${path.basename(editor.document.fileName)}`,
+          detail: "Insert the chunk at the cursor.",
+          action: "insert" as const,
+        },
+        {
+          label: "Copy to clipboard",
+          detail: "Copy the chunk to paste it into a Quarto document.",
+          action: "copy" as const,
+        },
+      ],
+      { title: "Insert or copy the Quarto chunk?" }
+    );
+    if (!picked) {
+      return;
+    }
+    action = picked.action;
+  }
+
+  if (action === "copy" || !editor) {
+    await vscode.env.clipboard.writeText(chunk);
+    vscode.window.showInformationMessage(
+      "Shinylive: Copied the Quarto chunk to the clipboard. Quarto renders it with the shinylive extension."
+    );
+    return;
+  }
+
+  const position = editor.selection.start;
+  const prefix = position.character > 0 ? "\n\n" : "";
+  await editor.edit((builder) =>
+    builder.replace(editor.selection, prefix + chunk)
+  );
+  await vscode.window.showTextDocument(editor.document, editor.viewColumn);
+}
+
+/**
+ * Command: Save the app of a shinylive code block in a Quarto document.
+ *
+ * The code block is the one at the cursor in the active editor, the only one in
+ * the document, or one that the user picks. Its `## file:` sections are saved
+ * as files in a directory that the user chooses.
+ *
+ * @export
+ * @async
+ */
+export async function shinyliveSaveAppFromQuartoChunk(): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showErrorMessage("Shinylive: no editor is currently active.");
+    return;
+  }
+
+  const chunks = findShinyliveQuartoChunks(editor.document.getText());
+  if (chunks.length === 0) {
+    vscode.window.showErrorMessage(
+      "Shinylive: the active document has no `{shinylive-python}` or `{shinylive-r}` chunks."
+    );
+    return;
+  }
+
+  const cursorLine = editor.selection.active.line;
+  let chunk =
+    chunks.find(
+      ({ startLine, endLine }) =>
+        startLine <= cursorLine && cursorLine <= endLine
+    ) ?? (chunks.length === 1 ? chunks[0] : undefined);
+
+  if (!chunk) {
+    const picked = await vscode.window.showQuickPick(
+      chunks.map((chunk) => ({
+        label: `Line ${chunk.startLine + 1}`,
+        description: chunk.language === "py" ? "Python" : "R",
+        detail: chunk.files.map((file) => file.name).join(", "),
+        chunk,
+      })),
+      { title: "Which shinylive chunk should be saved?" }
+    );
+    if (!picked) {
+      return;
+    }
+    chunk = picked.chunk;
+  }
+
+  if (chunk.files.length === 0) {
+    vscode.window.showErrorMessage(
+      `Shinylive: the chunk on line ${chunk.startLine + 1} has no files.`
+    );
+    return;
+  }
+
+  await shinyliveSaveApp(chunk.files);
+}
+
+function isQuartoDocument(document: vscode.TextDocument): boolean {
+  return document.languageId === "quarto" || /\.qmd$/i.test(document.fileName);
+}
+
+/**
+ * Ask the user for the options of a shinylive code block: which components to
+ * show, how to lay them out and the height of the viewer.
+ *
+ * @async
+ * @returns {Promise<ShinyliveQuartoOptions | undefined>} The options, or
+ * `undefined` if the user cancelled.
+ */
+async function askUserForQuartoOptions(): Promise<
+  ShinyliveQuartoOptions | undefined
+> {
+  const components = await vscode.window.showQuickPick(
+    [
+      {
+        label: "Editor and viewer",
+        detail: "Show the app's code in an editor alongside the running app.",
+        components: [
+          "editor",
+          "viewer",
+        ] as ShinyliveQuartoOptions["components"],
+      },
+      {
+        label: "Viewer",
+        detail: "Show only the running app.",
+        components: ["viewer"] as ShinyliveQuartoOptions["components"],
+      },
+    ],
+    { title: "Which components should the chunk show?" }
+  );
+  if (!components) {
+    return;
+  }
+
+  let layout: ShinyliveQuartoOptions["layout"];
+  if (components.components.includes("editor")) {
+    const picked = await vscode.window.showQuickPick(
+      [
+        {
+          label: "horizontal",
+          detail: "The editor is beside the viewer.",
+        },
+        {
+          label: "vertical",
+          detail: "The editor is above the viewer.",
+        },
+      ],
+      { title: "Which layout?" }
+    );
+    if (!picked) {
+      return;
+    }
+    layout = picked.label as ShinyliveQuartoOptions["layout"];
+  }
+
+  const viewerHeight = await vscode.window.showInputBox({
+    title: "Viewer height in pixels",
+    prompt: "Leave empty to use Shinylive's default height.",
+    validateInput: (value) =>
+      /^\s*\d*\s*$/.test(value)
+        ? undefined
+        : "Enter the height as a number of pixels, e.g. 500.",
+  });
+  if (viewerHeight === undefined) {
+    return;
+  }
+
+  return {
+    components: components.components,
+    layout,
+    viewerHeight: parseInt(viewerHeight) || undefined,
+  };
+}
+
 /**
  * Consult the user's preferred open action, or ask them directly. The default
  * preference is `"ask"`, but users can choose `"open"` or `"copy"` in their
@@ -474,20 +1224,28 @@ async function askUserForOutputFile(
 
 /**
  * Ask the user for an output directory where a multi-file Shinylive app will be
- * saved. VS Code will force the user to pick a non-existent directory.
+ * saved. The directory may already exist, e.g. to update an app that was saved
+ * before, in which case the changes to its files are reviewed before saving.
  *
  * @async
+ * @param {string} [title] The title of the folder dialog.
  * @returns {Promise<vscode.Uri | undefined>} A `vscode.Uri` object of the
  * selected directory, or `undefined` if the user canceled the selection.
  */
-async function askUserForOutputDirectory(): Promise<vscode.Uri | undefined> {
+async function askUserForOutputDirectory(
+  title = "Choose a directory for the Shinylive app and files"
+): Promise<vscode.Uri | undefined> {
   const defaultUri = lastUsedDir || vscode.workspace.workspaceFolders?.[0].uri;
 
-  const uri = await vscode.window.showSaveDialog({
+  const picked = await vscode.window.showOpenDialog({
     defaultUri: defaultUri,
-    saveLabel: "App directory",
-    title: "Choose a directory for the Shinylive app and files",
+    canSelectFiles: false,
+    canSelectFolders: true,
+    canSelectMany: false,
+    openLabel: "App directory",
+    title,
   });
+  const uri = picked?.[0];
 
   if (!uri) {
     // Reset the last used directory if the user cancels, otherwise they can
@@ -505,15 +1263,6 @@ async function askUserForOutputDirectory(): Promise<vscode.Uri | undefined> {
     return;
   }
 
-  try {
-    await vscode.workspace.fs.createDirectory(uri);
-  } catch (error) {
-    vscode.window.showErrorMessage(
-      `Shinylive failed to create new directory "${uri.toString()}". ${error}`
-    );
-    return;
-  }
-
   lastUsedDir = uri;
   return uri;
 }
@@ -526,8 +1275,7 @@ async function askUserForOutputDirectory(): Promise<vscode.Uri | undefined> {
  * @returns {string} The encoded Shinylive URL.
  */
 export function shinyliveUrlEncode({ language, files, mode }: ShinyliveBundle) {
-  const filesJson = JSON.stringify(files);
-  const filesLZ = lzstring.compressToEncodedURIComponent(filesJson);
+  const filesLZ = shinyliveCodeEncode(files);
 
   const host = vscode.workspace
     .getConfiguration("shiny.shinylive")
@@ -564,17 +1312,17 @@ export function shinyliveUrlDecode(url: string): ShinyliveBundle | undefined {
     return;
   }
 
-  const filesJson = lzstring.decompressFromEncodedURIComponent(code);
-  const files = JSON.parse(filesJson).map((file: ShinyliveFile) => {
-    file.name = path.normalize(file.name);
-    return file;
-  });
+  const files = shinyliveCodeDecode(code);
+
+  if (!files) {
+    return;
+  }
 
   const pathParts = pathname.split("/");
   const language: ShinyliveLanguage = pathParts.includes("py") ? "py" : "r";
   const mode: ShinyliveMode = pathParts.includes("editor") ? "editor" : "app";
 
-  return { language, mode, files: files as ShinyliveFile[] };
+  return { language, mode, files };
 }
 
 /**
@@ -613,16 +1361,7 @@ async function shinyliveWriteFiles(
       }
     }
 
-    let contentBuffer: Buffer;
-
-    switch (file.type) {
-      case "binary":
-        contentBuffer = Buffer.from(file.content, "base64");
-        break;
-      default:
-        contentBuffer = Buffer.from(file.content, "utf8");
-        break;
-    }
+    const contentBuffer = shinyliveFileBytes(file);
 
     if (!confirmOverwrite || (await askUserToConfirmOverwrite(filePath))) {
       try {
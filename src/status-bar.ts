@@ -0,0 +1,166 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { getRunningAppUrl, restartApp } from "./run";
+import {
+  appLabel,
+  getRunningApp,
+  getRunningApps,
+  onDidChangeRunningApps,
+  stopRunningApp,
+  type RunningApp,
+} from "./running-apps";
+
+// =============================================================================
+// Running App Status Bar Item
+// -----------------------------------------------------------------------------
+// Shows the running app and its port in the status bar, e.g.
+// "Shiny: app.py :8123", or the number of apps when more than one is running.
+// Clicking it opens a quick pick with actions for the app.
+// =============================================================================
+
+const SHOW_ACTIONS_COMMAND = "shiny.showRunningAppActions";
+
+interface AppActionQuickPickItem extends vscode.QuickPickItem {
+  action: (app: RunningApp) => void | Thenable<unknown>;
+}
+
+const APP_ACTIONS: AppActionQuickPickItem[] = [
+  {
+    label: "$(globe) Open in Simple Browser",
+    action: async (app) =>
+      vscode.commands.executeCommand(
+        "simpleBrowser.api.open",
+        await getRunningAppUrl(app),
+        { preserveFocus: true, viewColumn: vscode.ViewColumn.Beside }
+      ),
+  },
+  {
+    label: "$(link-external) Open in External Browser",
+    action: async (app) =>
+      vscode.env.openExternal(vscode.Uri.parse(await getRunningAppUrl(app))),
+  },
+  {
+    label: "$(copy) Copy URL",
+    action: async (app) => {
+      const url = await getRunningAppUrl(app);
+      await vscode.env.clipboard.writeText(url);
+      vscode.window.showInformationMessage(`Copied ${url} to the clipboard.`);
+    },
+  },
+  {
+    label: "$(debug-restart) Restart",
+    action: (app) => restartApp(app.appPath),
+  },
+  {
+    label: "$(terminal) Show Terminal",
+    // Debugged apps write to the Debug Console instead
+    action: (app) =>
+      app.terminal
+        ? app.terminal.show()
+        : vscode.commands.executeCommand("workbench.debug.action.focusRepl"),
+  },
+  {
+    label: "$(debug-stop) Stop",
+    action: (app) => stopRunningApp(app.appPath),
+  },
+];
+
+function updateStatusBarItem(item: vscode.StatusBarItem): void {
+  const apps = getRunningApps();
+  if (apps.length === 0) {
+    item.hide();
+    return;
+  }
+
+  if (apps.length === 1) {
+    const [app] = apps;
+    item.text = `${statusIcon(app)} Shiny: ${path.basename(app.appPath)} :${app.port}`;
+    item.tooltip = `${appLabel(app.appPath)} on port ${app.port}`;
+    item.backgroundColor =
+      app.status === "crashed"
+        ? new vscode.ThemeColor("statusBarItem.errorBackground")
+        : undefined;
+  } else {
+    item.text = `$(debug-start) Shiny: ${apps.length} apps`;
+    item.tooltip = apps
+      .map((app) => `${appLabel(app.appPath)} on port ${app.port}`)
+      .join("\n");
+    item.backgroundColor = apps.some((app) => app.status === "crashed")
+      ? new vscode.ThemeColor("statusBarItem.errorBackground")
+      : undefined;
+  }
+
+  item.show();
+}
+
+function statusIcon(app: RunningApp): string {
+  switch (app.status) {
+    case "starting":
+      return "$(loading~spin)";
+    case "running":
+      return "$(debug-start)";
+    case "crashed":
+      return "$(error)";
+    case "exited":
+      return "$(debug-stop)";
+  }
+}
+
+/**
+ * Let the user pick an action for a running app. If more than one app is
+ * running, the user picks the app first.
+ */
+async function showRunningAppActions(): Promise<void> {
+  const app = await pickRunningApp();
+  if (!app) {
+    return;
+  }
+
+  const selected = await vscode.window.showQuickPick(APP_ACTIONS, {
+    title: `Shiny: ${appLabel(app.appPath)} :${app.port}`,
+    placeHolder: "What do you want to do with the app?",
+  });
+  // The app may have stopped while the quick pick was open
+  if (!selected || !getRunningApp(app.appPath)) {
+    return;
+  }
+
+  await selected.action(app);
+}
+
+async function pickRunningApp(): Promise<RunningApp | undefined> {
+  const apps = getRunningApps();
+  if (apps.length <= 1) {
+    return apps[0];
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    apps.map((app) => ({
+      label: appLabel(app.appPath),
+      description: `port ${app.port}`,
+      app,
+    })),
+    { title: "Shiny", placeHolder: "Which app?" }
+  );
+  return selected?.app;
+}
+
+/**
+ * Register the running app status bar item and its command. This should be
+ * called once during extension activation.
+ */
+export function registerStatusBar(context: vscode.ExtensionContext): void {
+  const item = vscode.window.createStatusBarItem(
+    "shiny.runningApp",
+    vscode.StatusBarAlignment.Left
+  );
+  item.name = "Shiny App";
+  item.command = SHOW_ACTIONS_COMMAND;
+  updateStatusBarItem(item);
+
+  context.subscriptions.push(
+    item,
+    onDidChangeRunningApps(() => updateStatusBarItem(item)),
+    vscode.commands.registerCommand(SHOW_ACTIONS_COMMAND, showRunningAppActions)
+  );
+}
@@ -0,0 +1,80 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  parsePythonImports,
+  parseRPackages,
+  scanAppDependencies,
+} from "../../app-dependencies";
+
+suite("App Dependencies Test Suite", () => {
+  let root: string;
+
+  function writeFiles(files: [file: string, content: string][]): void {
+    for (const [file, content] of files) {
+      fs.mkdirSync(path.join(root, path.dirname(file)), { recursive: true });
+      fs.writeFileSync(path.join(root, file), content);
+    }
+  }
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "shiny-dependencies-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test("parsePythonImports", () => {
+    assert.deepStrictEqual(
+      parsePythonImports(
+        [
+          "from __future__ import annotations",
+          "import os, numpy as np",
+          "from shiny.express import ui  # the UI",
+          "from . import utils",
+          "from .data import (",
+          "    load,",
+          "    save,",
+          ")",
+          "def server():",
+          "    import pandas",
+        ].join("\n")
+      ),
+      ["os", "numpy", "shiny.express", ".utils", ".data", "pandas"]
+    );
+  });
+
+  test("parseRPackages", () => {
+    assert.deepStrictEqual(
+      parseRPackages(
+        [
+          "library(shiny)",
+          'require("bslib")',
+          "# library(commented)",
+          'x <- dplyr::filter(df, col == "#fff") |> tidyr:::pivot_longer()',
+          "library(pkg, character.only = TRUE)",
+        ].join("\n")
+      ),
+      ["shiny", "bslib", "dplyr", "tidyr"]
+    );
+  });
+
+  test("Python apps are followed into their local modules", () => {
+    writeFiles([
+      ["app.py", "from shiny import App\nimport helpers\nimport sklearn\n"],
+      ["helpers.py", "import yaml\nfrom PIL import Image\n"],
+      ["unused.py", "import torch\n"],
+    ]);
+    assert.deepStrictEqual(
+      scanAppDependencies(path.join(root, "app.py"), "python"),
+      [
+        { name: "PIL", package: "pillow" },
+        { name: "shiny", package: "shiny" },
+        { name: "sklearn", package: "scikit-learn" },
+        { name: "yaml", package: "pyyaml" },
+      ]
+    );
+  });
+});
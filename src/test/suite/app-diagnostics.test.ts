@@ -0,0 +1,67 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { findProblemLocation } from "../../app-diagnostics";
+import { AppOutputParser } from "../../app-output-parser";
+
+suite("App Diagnostics Test Suite", () => {
+  let root: string;
+  let workspaceDir: string;
+  let libDir: string;
+
+  const isInWorkspace = (file: string) =>
+    !path.relative(workspaceDir, file).startsWith("..");
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "shiny-diagnostics-"));
+    workspaceDir = path.join(root, "workspace");
+    libDir = path.join(root, "lib", "python3.12");
+    fs.mkdirSync(path.join(workspaceDir, "app"), { recursive: true });
+    fs.mkdirSync(path.join(libDir, "json"), { recursive: true });
+    fs.writeFileSync(path.join(workspaceDir, "app", "app.py"), "");
+    fs.writeFileSync(path.join(workspaceDir, "utils.py"), "");
+    fs.writeFileSync(path.join(libDir, "json", "decoder.py"), "");
+  });
+
+  teardown(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test("findProblemLocation skips frames outside the workspace", () => {
+    const appFile = path.join(workspaceDir, "app", "app.py");
+    const [event] = new AppOutputParser("python").push(
+      [
+        "Traceback (most recent call last):",
+        `  File "${appFile}", line 12, in txt`,
+        "    return load_config()",
+        `  File "${path.join(workspaceDir, "utils.py")}", line 3, in load_config`,
+        "    return json.loads(text)",
+        `  File "${path.join(libDir, "json", "decoder.py")}", line 355, in raw_decode`,
+        '    raise JSONDecodeError("Expecting value", s, err.value) from None',
+        "json.decoder.JSONDecodeError: Expecting value: line 1 column 1 (char 0)",
+        "",
+      ].join("\n")
+    );
+    assert.ok(event?.type === "problem");
+
+    assert.deepStrictEqual(
+      findProblemLocation(appFile, event.problem.locations, isInWorkspace),
+      { file: path.join(workspaceDir, "utils.py"), line: 3 }
+    );
+    // Frames in the app's own directory count without a workspace
+    assert.deepStrictEqual(
+      findProblemLocation(appFile, event.problem.locations, () => false),
+      { file: appFile, line: 12 }
+    );
+    // Otherwise, the error is shown on the app file
+    assert.deepStrictEqual(
+      findProblemLocation(
+        appFile,
+        event.problem.locations.slice(0, 1),
+        isInWorkspace
+      ),
+      { file: appFile, line: 1 }
+    );
+  });
+});
@@ -0,0 +1,56 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import * as assert from "assert";
+import { parseEnvFile, rSetEnvCode } from "../../app-environment";
+
+suite("App Environment Test Suite", () => {
+  test("parseEnvFile", () => {
+    const content = [
+      "# Database settings",
+      "DATABASE_URL=sqlite:///dev.db",
+      "export API_KEY = abc123",
+      "",
+      "DEBUG=true # Turn off in production",
+      "URL=https://example.com/#anchor",
+      "not a variable",
+      "EMPTY=",
+    ].join("\r\n");
+
+    assert.deepStrictEqual(parseEnvFile(content), {
+      DATABASE_URL: "sqlite:///dev.db",
+      API_KEY: "abc123",
+      DEBUG: "true",
+      URL: "https://example.com/#anchor",
+      EMPTY: "",
+    });
+  });
+
+  test("parseEnvFile with quoted values", () => {
+    const content = [
+      `SINGLE='a "quoted" # value\\n'`,
+      `DOUBLE="line 1\\nline 2\\r\\n"`,
+      `ESCAPED="say \\"hi\\" \\\\ bye" # A comment`,
+      `HASH="# not a comment"`,
+    ].join("\n");
+
+    assert.deepStrictEqual(parseEnvFile(content), {
+      SINGLE: 'a "quoted" # value\\n',
+      DOUBLE: "line 1\nline 2\r\n",
+      ESCAPED: 'say "hi" \\ bye',
+      HASH: "# not a comment",
+    });
+  });
+
+  test("rSetEnvCode", () => {
+    assert.deepStrictEqual(rSetEnvCode({}), []);
+    assert.deepStrictEqual(
+      rSetEnvCode({
+        API_KEY: "abc123",
+        "my-var": 'say "hi"\n',
+        R_LIBS_USER: "C:\\R\\library",
+      }),
+      [
+        'Sys.setenv(API_KEY = "abc123", `my-var` = "say \\"hi\\"\\n", R_LIBS_USER = "C:\\\\R\\\\library")',
+      ]
+    );
+  });
+});
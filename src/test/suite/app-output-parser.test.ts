@@ -0,0 +1,118 @@
+import * as assert from "assert";
+import { AppOutputParser } from "../../app-output-parser";
+
+suite("AppOutputParser Test Suite", () => {
+  test("Python tracebacks", () => {
+    const parser = new AppOutputParser("python");
+
+    const events = parser.push(
+      [
+        "INFO:     Application startup complete.",
+        "Traceback (most recent call last):",
+        '  File "/site-packages/shiny/render.py", line 10, in run',
+        "    value = fn()",
+        '  File "/workspace/app.py", line 12, in txt',
+        "    return 1 / 0",
+        "           ~~^~~",
+        "ZeroDivisionError: division by zero",
+        "",
+      ].join("\n")
+    );
+
+    assert.deepStrictEqual(events, [
+      { type: "started" },
+      {
+        type: "problem",
+        problem: {
+          message: "ZeroDivisionError: division by zero",
+          locations: [
+            { file: "/workspace/app.py", line: 12 },
+            { file: "/site-packages/shiny/render.py", line: 10 },
+          ],
+        },
+      },
+    ]);
+  });
+
+  test("Output split across chunks", () => {
+    const parser = new AppOutputParser("python");
+
+    assert.deepStrictEqual(
+      parser.push("Traceback (most recent call last):\n"),
+      []
+    );
+    assert.deepStrictEqual(parser.push('  File "/workspace/app.py", li'), []);
+    assert.deepStrictEqual(parser.push("ne 3, in <module>\nValueError: o"), []);
+    assert.deepStrictEqual(parser.push("ops\r\n"), [
+      {
+        type: "problem",
+        problem: {
+          message: "ValueError: oops",
+          locations: [{ file: "/workspace/app.py", line: 3 }],
+        },
+      },
+    ]);
+  });
+
+  test("R stack traces", () => {
+    const parser = new AppOutputParser("r");
+
+    const events = parser.push(
+      [
+        "Listening on http://127.0.0.1:8000",
+        "Warning: Error in renderPlot: object 'x' not found",
+        "  170: <Anonymous>",
+        "   99: renderPlot [/workspace/app.R#25]",
+        "    1: runApp",
+        "",
+      ].join("\n")
+    );
+
+    assert.deepStrictEqual(events, [
+      { type: "started" },
+      {
+        type: "problem",
+        problem: {
+          message: "Error in renderPlot: object 'x' not found",
+          locations: [{ file: "/workspace/app.R", line: 25 }],
+        },
+      },
+    ]);
+  });
+
+  test("R errors", () => {
+    const parser = new AppOutputParser("r");
+
+    const events = parser.push(
+      [
+        "Error in parse(file) : app.R:12:3: unexpected symbol",
+        "Error in shiny::runApp(path) : ",
+        "  app directory not found",
+        "Error: boom",
+        "Execution halted",
+        "",
+      ].join("\n")
+    );
+
+    assert.deepStrictEqual(events, [
+      {
+        type: "problem",
+        problem: {
+          message: "Error in parse(file): unexpected symbol",
+          locations: [{ file: "app.R", line: 12, column: 3 }],
+        },
+      },
+      {
+        type: "problem",
+        problem: {
+          message: "Error in shiny::runApp(path): app directory not found",
+          locations: [],
+        },
+      },
+      {
+        type: "problem",
+        problem: { message: "Error: boom", locations: [] },
+      },
+    ]);
+  });
+});
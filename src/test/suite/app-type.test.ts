@@ -0,0 +1,74 @@
+import * as assert from "assert";
+import { classifyShinyApp } from "../../app-type";
+
+suite("classifyShinyApp Test Suite", () => {
+  test("Shiny Express apps", () => {
+    const app = classifyShinyApp(
+      "app.py",
+      "python",
+      [
+        "from shiny.express import input, render, ui",
+        "",
+        'ui.input_slider("n", "N", 1, 100, 50)',
+        "",
+        "@render.text",
+        "def txt():",
+        "    return input.n() * 2",
+      ].join("\n")
+    );
+    assert.deepStrictEqual(app, { type: "express", warnings: [] });
+  });
+
+  test("Shiny Core apps", () => {
+    const app = classifyShinyApp(
+      "app.py",
+      "python",
+      [
+        "from shiny import App, render, ui",
+        "",
+        "app_ui = ui.page_fluid(ui.output_text('txt'))",
+        "",
+        "def server(input, output, session):",
+        "    @render.text",
+        "    def txt():",
+        "        return 'hi'",
+        "",
+        "app = App(app_ui, server)",
+      ].join("\n")
+    );
+    assert.deepStrictEqual(app, { type: "core", warnings: [] });
+  });
+
+  test("Likely mistakes are warned about", () => {
+    const core = classifyShinyApp(
+      "app.py",
+      "python",
+      "from shiny import App, ui\n\ndef server(input, output, session):\n    pass\n"
+    );
+    assert.strictEqual(core?.type, "core");
+    assert.strictEqual(core?.warnings.length, 1);
+
+    const express = classifyShinyApp(
+      "app.py",
+      "python",
+      "from shiny import render\n\n@render.text\ndef txt():\n    return 'hi'\n"
+    );
+    assert.strictEqual(express?.type, "express");
+    assert.strictEqual(express?.warnings.length, 1);
+  });
+
+  test("R apps and non-apps", () => {
+    assert.strictEqual(
+      classifyShinyApp("app.R", "r", "shiny::shinyApp(ui, server)")?.type,
+      "r-single-file"
+    );
+    assert.strictEqual(
+      classifyShinyApp("myapp/server.R", "r", "library(shiny)")?.type,
+      "r-multi-file"
+    );
+    assert.strictEqual(
+      classifyShinyApp("app_utils.py", "python", "from shiny import ui\n"),
+      undefined
+    );
+  });
+});
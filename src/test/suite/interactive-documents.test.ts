@@ -0,0 +1,71 @@
+import * as assert from "assert";
+import { getInteractiveDocument } from "../../interactive-documents";
+
+suite("getInteractiveDocument Test Suite", () => {
+  test("Quarto documents with server: shiny", () => {
+    assert.deepStrictEqual(
+      getInteractiveDocument(
+        "dashboard.qmd",
+        "---\ntitle: Sales\nserver: shiny\n---\n\n```{r}\nsliderInput('n', 'N', 1, 10, 5)\n```\n"
+      ),
+      { kind: "quarto", language: "r" }
+    );
+    assert.deepStrictEqual(
+      getInteractiveDocument(
+        "dashboard.qmd",
+        "---\ntitle: Sales\nserver:\n  type: shiny\n---\n\n```{python}\nfrom shiny import ui\n```\n"
+      ),
+      { kind: "quarto", language: "python" }
+    );
+    assert.deepStrictEqual(
+      getInteractiveDocument(
+        "dashboard.qmd",
+        "---\nserver:\n  # Shared with the deployment\n  ports: [8080]\n  type: 'shiny'\nformat: html\n---\n"
+      ),
+      { kind: "quarto", language: "r" }
+    );
+    assert.deepStrictEqual(
+      getInteractiveDocument(
+        "dashboard.qmd",
+        "---\nserver: {ports: [8080], type: shiny}\n---\n"
+      ),
+      { kind: "quarto", language: "r" }
+    );
+  });
+
+  test("R Markdown documents with runtime: shiny", () => {
+    assert.deepStrictEqual(
+      getInteractiveDocument(
+        "report.Rmd",
+        "---\r\noutput: html_document\r\nruntime: shiny_prerendered\r\n---\r\n"
+      ),
+      { kind: "rmarkdown", language: "r" }
+    );
+  });
+
+  test("Other documents", () => {
+    // Static documents
+    assert.strictEqual(
+      getInteractiveDocument("report.qmd", "---\ntitle: Report\n---\n"),
+      undefined
+    );
+    // Only the front matter counts
+    assert.strictEqual(
+      getInteractiveDocument("report.Rmd", "# Notes\n\nruntime: shiny\n"),
+      undefined
+    );
+    // Only the keys of the server map count
+    assert.strictEqual(
+      getInteractiveDocument(
+        "report.qmd",
+        "---\nserver:\n  options:\n    type: shiny\nformat:\n  type: shiny\n---\n"
+      ),
+      undefined
+    );
+    // R Markdown's runtime isn't used by Quarto
+    assert.strictEqual(
+      getInteractiveDocument("report.qmd", "---\nruntime: shiny\n---\n"),
+      undefined
+    );
+  });
+});
@@ -0,0 +1,73 @@
+import * as assert from "assert";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { waitUntilShinyAppIsResponding } from "../../net-utils";
+
+suite("Net Utils Test Suite", () => {
+  let server: http.Server;
+  let port: number;
+  // The pages of the app by URL path; other paths are not found
+  let pages: Record<string, string>;
+
+  setup(async () => {
+    pages = {};
+    server = http.createServer((req, res) => {
+      const page = pages[req.url ?? "/"];
+      res.writeHead(page === undefined ? 404 : 200);
+      res.end(page ?? "Not Found");
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    port = (server.address() as AddressInfo).port;
+  });
+
+  teardown(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("waitUntilShinyAppIsResponding", async () => {
+    pages["/"] = '<script src="shiny-1.9.1/shiny.min.js"></script>';
+    assert.strictEqual(
+      await waitUntilShinyAppIsResponding(port, 1000, { gracePeriod: 60000 }),
+      true
+    );
+
+    // Pages without Shiny's JavaScript count after the grace period
+    pages["/"] = "<html></html>";
+    assert.strictEqual(
+      await waitUntilShinyAppIsResponding(
+        port,
+        300,
+        { gracePeriod: 60000 },
+        50
+      ),
+      false
+    );
+    assert.strictEqual(
+      await waitUntilShinyAppIsResponding(port, 1000, { gracePeriod: 200 }, 50),
+      true
+    );
+  });
+
+  test("waitUntilShinyAppIsResponding at a URL path", async () => {
+    // A Starlette app that mounts the Shiny app
+    pages["/"] = "<html>Home</html>";
+    pages["/shiny/"] = '<script src="shiny-1.9.1/shiny.min.js"></script>';
+    const options = { path: "/shiny/", gracePeriod: 60000 };
+    assert.strictEqual(
+      await waitUntilShinyAppIsResponding(port, 1000, options),
+      true
+    );
+    assert.strictEqual(
+      await waitUntilShinyAppIsResponding(
+        port,
+        300,
+        { gracePeriod: 60000 },
+        50
+      ),
+      false
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  parseShinyProjectConfig,
+  pythonAppTargetArgs,
+  resolvePythonAppTarget,
+} from "../../python-app-target";
+
+suite("Python App Target Test Suite", () => {
+  let root: string;
+
+  function writeFiles(files: [file: string, content: string][]): void {
+    for (const [file, content] of files) {
+      fs.mkdirSync(path.join(root, path.dirname(file)), { recursive: true });
+      fs.writeFileSync(path.join(root, file), content);
+    }
+  }
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "shiny-pyproject-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test("parseShinyProjectConfig", () => {
+    const config = parseShinyProjectConfig(
+      [
+        "[project]",
+        'name = "myapp"',
+        "",
+        "[tool.shiny]",
+        "app = 'myapp.asgi:create_app'  # Starlette app",
+        "factory = true",
+        "port = 8123",
+        'path = "/shiny/"',
+        "reload-dirs = [",
+        '  "src/myapp",',
+        '  "data#1",',
+        "]",
+        "",
+        "[tool.ruff]",
+        'app = "ignored"',
+      ].join("\n")
+    );
+    assert.deepStrictEqual(config, {
+      app: "myapp.asgi:create_app",
+      factory: true,
+      port: 8123,
+      path: "/shiny/",
+      reloadDirs: ["src/myapp", "data#1"],
+    });
+    assert.deepStrictEqual(
+      parseShinyProjectConfig('[project]\nname = "x"'),
+      {}
+    );
+  });
+
+  test("Apps in src layout packages are run as modules", () => {
+    writeFiles([
+      ["pyproject.toml", '[project]\nname = "myapp"\n'],
+      ["src/myapp/__init__.py", ""],
+      ["src/myapp/app.py", "from shiny import App\n\napp = App(ui, server)\n"],
+    ]);
+    const target = resolvePythonAppTarget(
+      path.join(root, "src", "myapp", "app.py")
+    );
+    assert.strictEqual(target.app, "myapp.app:app");
+    assert.strictEqual(target.appDir, path.join(root, "src"));
+    assert.deepStrictEqual(pythonAppTargetArgs(target, false), [
+      "--app-dir",
+      path.join(root, "src"),
+      "myapp.app:app",
+    ]);
+  });
+
+  test("[tool.shiny] app only applies to its own package", () => {
+    writeFiles([
+      [
+        "pyproject.toml",
+        '[tool.shiny]\napp = "myapp.asgi:app"\npath = "shiny/"\n',
+      ],
+      ["myapp/__init__.py", ""],
+      ["myapp/app.py", "from shiny.express import ui\n"],
+      ["examples/app.py", "from shiny.express import ui\n"],
+    ]);
+    const target = resolvePythonAppTarget(path.join(root, "myapp", "app.py"));
+    assert.strictEqual(target.app, "myapp.asgi:app");
+    assert.strictEqual(target.urlPath, "/shiny/");
+    const example = path.join(root, "examples", "app.py");
+    assert.strictEqual(resolvePythonAppTarget(example).app, example);
+    assert.strictEqual(resolvePythonAppTarget(example).urlPath, "/");
+  });
+});
@@ -0,0 +1,86 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  detectRAppFramework,
+  getRAppFrameworkForEntryPoint,
+  isRAppFrameworkEntryPoint,
+} from "../../r-app-frameworks";
+
+suite("detectRAppFramework Test Suite", () => {
+  let root: string;
+
+  function writeFiles(files: [file: string, content: string][]): void {
+    for (const [file, content] of files) {
+      fs.mkdirSync(path.join(root, path.dirname(file)), { recursive: true });
+      fs.writeFileSync(path.join(root, file), content);
+    }
+  }
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "shiny-framework-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test("golem apps", () => {
+    writeFiles([
+      ["DESCRIPTION", "Package: myapp\nImports:\n    golem,\n    shiny\n"],
+      ["R/run_app.R", "run_app <- function() {}\n"],
+      ["R/utils.R", ""],
+      ["app.R", "pkgload::load_all()\nmyapp::run_app()\n"],
+      ["inst/examples/hello/app.R", "shiny::shinyApp(ui, server)\n"],
+    ]);
+    assert.deepStrictEqual(
+      detectRAppFramework(path.join(root, "R", "run_app.R")),
+      { kind: "golem", root }
+    );
+    assert.ok(isRAppFrameworkEntryPoint(path.join(root, "R", "run_app.R")));
+    assert.ok(!isRAppFrameworkEntryPoint(path.join(root, "R", "utils.R")));
+
+    // Only entry points run the framework's app
+    assert.deepStrictEqual(
+      getRAppFrameworkForEntryPoint(path.join(root, "app.R")),
+      { kind: "golem", root }
+    );
+    assert.strictEqual(
+      getRAppFrameworkForEntryPoint(
+        path.join(root, "inst", "examples", "hello", "app.R")
+      ),
+      undefined
+    );
+  });
+
+  test("rhino apps", () => {
+    writeFiles([
+      ["rhino.yml", "sass: node\n"],
+      ["app.R", "rhino::app()\n"],
+      ["app/main.R", "box::use(shiny)\n"],
+    ]);
+    assert.deepStrictEqual(
+      detectRAppFramework(path.join(root, "app", "main.R")),
+      { kind: "rhino", root }
+    );
+    assert.ok(isRAppFrameworkEntryPoint(path.join(root, "app", "main.R")));
+  });
+
+  test("R packages", () => {
+    writeFiles([
+      ["DESCRIPTION", "Package: mypkg\n"],
+      ["R/hello.R", ""],
+    ]);
+    assert.strictEqual(
+      detectRAppFramework(path.join(root, "R", "hello.R")),
+      undefined
+    );
+
+    writeFiles([["inst/app/app.R", "shiny::shinyApp(ui, server)\n"]]);
+    assert.deepStrictEqual(
+      detectRAppFramework(path.join(root, "inst", "app", "app.R")),
+      { kind: "inst-app", root }
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { formatRArgs, getRRunAppArgs } from "../../run-args";
+
+suite("Run Args Test Suite", () => {
+  const config = () => vscode.workspace.getConfiguration("shiny.r");
+
+  teardown(async () => {
+    await config().update(
+      "runAppArgs",
+      undefined,
+      vscode.ConfigurationTarget.Global
+    );
+  });
+
+  test("getRRunAppArgs ignores the arguments set by the extension", async () => {
+    await config().update(
+      "runAppArgs",
+      {
+        host: "0.0.0.0",
+        port: 1234,
+        appDir: "other",
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        "launch.browser": true,
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        "test.mode": true,
+      },
+      vscode.ConfigurationTarget.Global
+    );
+
+    assert.deepStrictEqual(getRRunAppArgs("/path/to/app.R"), {
+      host: "0.0.0.0",
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      "test.mode": true,
+    });
+  });
+
+  test("formatRArgs", () => {
+    assert.strictEqual(formatRArgs({}), "");
+    assert.strictEqual(
+      formatRArgs({
+        host: "0.0.0.0",
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        "display.mode": 'a "quoted" value',
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        "test.mode": true,
+        quiet: false,
+        workerId: null,
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        "launch.delay": 1.5,
+        timeout: 30,
+      }),
+      'host = "0.0.0.0", display.mode = "a \\"quoted\\" value", test.mode = TRUE, quiet = FALSE, workerId = NULL, launch.delay = 1.5, timeout = 30L'
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import * as assert from "assert";
+import * as lzstring from "lz-string";
+import {
+  shinyliveCodeDecode,
+  shinyliveCodeEncode,
+  shinyliveFileBytes,
+  shinyliveFileFromBytes,
+} from "../../shinylive-files";
+import {
+  findShinyliveQuartoChunks,
+  shinyliveQuartoChunk,
+} from "../../shinylive-quarto";
+
+// Every byte value, so that no byte is lost to a text encoding
+const allBytes = Array.from({ length: 256 }, (_, i) => i);
+
+const appFiles: [name: string, bytes: Buffer][] = [
+  ["app.py", Buffer.from("from shiny.express import ui\n\nui.h1('Héllo')\n")],
+  [
+    "www/logo.png",
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, ...allBytes]),
+  ],
+  ["www/font.woff2", Buffer.from([...Buffer.from("wOF2"), ...allBytes])],
+  ["data/model.rds", Buffer.from([0x1f, 0x8b, 0x08, 0x00, ...allBytes])],
+  [
+    "data/sales.parquet",
+    Buffer.from([...Buffer.from("PAR1"), ...allBytes, ...Buffer.from("PAR1")]),
+  ],
+  ["data/latin1.csv", Buffer.from("city\nMünchen\n", "latin1")],
+  ["data/sales.csv", Buffer.from("month,sales\nJan,10\n")],
+];
+
+suite("Shinylive Files Test Suite", () => {
+  test("shinyliveFileFromBytes", () => {
+    assert.deepStrictEqual(
+      appFiles.map(([name, bytes]) => shinyliveFileFromBytes(name, bytes).type),
+      [undefined, "binary", "binary", "binary", "binary", "binary", undefined]
+    );
+  });
+
+  test("Shinylive links keep the bytes of every file", () => {
+    const files = appFiles.map(([name, bytes]) =>
+      shinyliveFileFromBytes(name, bytes)
+    );
+    const decoded = shinyliveCodeDecode(shinyliveCodeEncode(files));
+
+    assert.deepStrictEqual(
+      decoded?.map((file) => [file.name, shinyliveFileBytes(file)]),
+      appFiles
+    );
+  });
+
+  test("Quarto chunks keep the bytes of every file", () => {
+    const files = appFiles.map(([name, bytes]) =>
+      shinyliveFileFromBytes(name, bytes)
+    );
+    const chunk = shinyliveQuartoChunk(files, "py", { components: ["viewer"] });
+    const [decoded] = findShinyliveQuartoChunks(chunk);
+
+    assert.deepStrictEqual(
+      decoded.files.map((file) => [file.name, shinyliveFileBytes(file)]),
+      appFiles
+    );
+  });
+
+  test("shinyliveCodeDecode", () => {
+    assert.strictEqual(shinyliveCodeDecode("not-a-shinylive-code"), undefined);
+
+    // Malformed files
+    for (const files of [
+      [{ name: 1 }],
+      [null],
+      [{ name: "app.py" }],
+      [{ name: "app.py", content: "", type: "image" }],
+      { name: "app.py", content: "" },
+    ]) {
+      const code = lzstring.compressToEncodedURIComponent(
+        JSON.stringify(files)
+      );
+      assert.strictEqual(shinyliveCodeDecode(code), undefined);
+    }
+  });
+});
@@ -0,0 +1,66 @@
+import * as assert from "assert";
+import {
+  checkShinylivePackages,
+  shinyliveUrlLimitsExceeded,
+} from "../../shinylive-preflight";
+
+suite("Shinylive Preflight Test Suite", () => {
+  test("shinyliveUrlLimitsExceeded", () => {
+    assert.deepStrictEqual(shinyliveUrlLimitsExceeded(1500), []);
+    assert.deepStrictEqual(shinyliveUrlLimitsExceeded(30000), [
+      "Discord messages",
+      "Microsoft Teams messages",
+    ]);
+  });
+
+  test("checkShinylivePackages", () => {
+    const packages = checkShinylivePackages(
+      [
+        {
+          name: "app.py",
+          content:
+            "import psycopg2\nfrom shiny import App\nimport utils\n" +
+            "import subprocess, threading\nfrom concurrent import futures\n" +
+            "from zoneinfo import ZoneInfo\nimport turtle\n",
+        },
+        { name: "utils.py", content: "import mystery_pkg\n" },
+        { name: "logo.png", content: "iVBORw0KGgo=", type: "binary" },
+      ],
+      "py"
+    );
+    assert.deepStrictEqual([...packages.keys()], ["app.py", "utils.py"]);
+    assert.deepStrictEqual(
+      packages.get("app.py")?.map(({ name, status }) => [name, status]),
+      [
+        ["psycopg2", "unavailable"],
+        ["shiny", "available"],
+        ["subprocess", "available"],
+        ["threading", "available"],
+        ["concurrent", "available"],
+        ["zoneinfo", "available"],
+        ["turtle", "unavailable"],
+      ]
+    );
+    assert.deepStrictEqual(packages.get("utils.py"), [
+      { name: "mystery_pkg", status: "unknown" },
+    ]);
+
+    const rPackages = checkShinylivePackages(
+      [
+        {
+          name: "app.R",
+          content: "library(shiny)\nDBI::dbConnect(RPostgres::Postgres())\n",
+        },
+      ],
+      "r"
+    );
+    assert.deepStrictEqual(
+      rPackages.get("app.R")?.map(({ name, status }) => [name, status]),
+      [
+        ["shiny", "available"],
+        ["DBI", "unknown"],
+        ["RPostgres", "unavailable"],
+      ]
+    );
+  });
+});
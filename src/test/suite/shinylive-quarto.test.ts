@@ -0,0 +1,102 @@
+import * as assert from "assert";
+import type { ShinyliveFile } from "../../shinylive";
+import {
+  findShinyliveQuartoChunks,
+  shinyliveQuartoChunk,
+} from "../../shinylive-quarto";
+
+suite("Shinylive Quarto Test Suite", () => {
+  const files: ShinyliveFile[] = [
+    {
+      name: "app.py",
+      content: "from shiny.express import ui\n\nimport utils\n",
+    },
+    { name: "utils.py", content: "x = 1\n" },
+    { name: "www/logo.png", content: "iVBORw0KGgo=", type: "binary" },
+  ];
+
+  test("shinyliveQuartoChunk", () => {
+    assert.strictEqual(
+      shinyliveQuartoChunk(files.slice(0, 2), "py", {
+        components: ["editor", "viewer"],
+        layout: "vertical",
+        viewerHeight: 420,
+      }),
+      [
+        "```{shinylive-python}",
+        "#| standalone: true",
+        "#| components: [editor, viewer]",
+        "#| layout: vertical",
+        "#| viewerHeight: 420",
+        "",
+        "## file: app.py",
+        "from shiny.express import ui",
+        "",
+        "import utils",
+        "",
+        "## file: utils.py",
+        "x = 1",
+        "",
+        "```",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("findShinyliveQuartoChunks", () => {
+    const chunk = shinyliveQuartoChunk(files, "py", { components: ["viewer"] });
+    const doc = [
+      "# Example",
+      "",
+      chunk,
+      "```{shinylive-r}",
+      "#| standalone: true",
+      "library(shiny)",
+      "shinyApp(fluidPage(), function(input, output) {})",
+      "```",
+      "",
+    ].join("\n");
+
+    const chunks = findShinyliveQuartoChunks(doc);
+    assert.deepStrictEqual(
+      chunks.map(({ language, startLine, endLine }) => [
+        language,
+        startLine,
+        endLine,
+      ]),
+      [
+        ["py", 2, 18],
+        ["r", 20, 24],
+      ]
+    );
+    assert.deepStrictEqual(chunks[0].files, files);
+    assert.deepStrictEqual(chunks[1].files, [
+      {
+        name: "app.R",
+        content:
+          "library(shiny)\nshinyApp(fluidPage(), function(input, output) {})",
+      },
+    ]);
+  });
+
+  test("Quarto chunks keep the content of every file", () => {
+    const trickyFiles: ShinyliveFile[] = [
+      {
+        name: "app.py",
+        content:
+          "#| Not an option\nfrom shiny.express import ui\n\nui.markdown('```py\\nx\\n```')\n",
+      },
+      { name: "README.md", content: "# Notes\n\n````r\nx\n````\n\n" },
+      { name: "no-newline.py", content: "x = 1" },
+      { name: "www/logo.png", content: "iVBORw0KGgo=", type: "binary" },
+      { name: "last.txt", content: "no newline at the end" },
+    ];
+    const chunk = shinyliveQuartoChunk(trickyFiles, "py", {
+      components: ["viewer"],
+    });
+
+    assert.ok(chunk.startsWith("`````{shinylive-python}\n"));
+    const [decoded] = findShinyliveQuartoChunks(`# Example\n\n${chunk}`);
+    assert.deepStrictEqual(decoded.files, trickyFiles);
+  });
+});
@@ -0,0 +1,112 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { ShinyliveFile } from "../../shinylive";
+import {
+  findShinyliveAssets,
+  shinyliveSizeReport,
+  shinyliveWriteSite,
+} from "../../shinylive-site";
+
+suite("Shinylive Site Test Suite", () => {
+  let root: string;
+
+  // A Shinylive assets directory, like those in the cache of `shinylive`
+  function writeAssets(dir: string, template = "<html></html>"): string {
+    fs.mkdirSync(path.join(dir, "shinylive"), { recursive: true });
+    fs.mkdirSync(path.join(dir, "export_template"), { recursive: true });
+    fs.writeFileSync(path.join(dir, "shinylive", "shinylive.js"), "// js\n");
+    fs.writeFileSync(path.join(dir, "shinylive-sw.js"), "// sw\n");
+    fs.writeFileSync(path.join(dir, "export_template", "index.html"), template);
+    return dir;
+  }
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "shiny-shinylive-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test("shinyliveWriteSite", async () => {
+    const assetsDir = writeAssets(
+      path.join(root, "assets"),
+      [
+        "<title>{{ title }}</title>",
+        "{{include_in_head}}",
+        '<script src="{{REL_PATH}}shinylive/shinylive.js"></script>',
+        "<script>runExportedApp({ appEngine: '{{ APP_ENGINE }}' })</script>",
+        "{{ unknown }}",
+      ].join("\n")
+    );
+    const outputDir = path.join(root, "site");
+    const files: ShinyliveFile[] = [
+      { name: "app.R", content: "library(shiny)\n" },
+      { name: "www/logo.png", content: "iVBORw0KGgo=", type: "binary" },
+    ];
+
+    await shinyliveWriteSite(files, "r", assetsDir, outputDir);
+
+    assert.strictEqual(
+      fs.readFileSync(path.join(outputDir, "index.html"), "utf8"),
+      [
+        "<title>Shiny app</title>",
+        "",
+        '<script src="shinylive/shinylive.js"></script>',
+        "<script>runExportedApp({ appEngine: 'r' })</script>",
+        "{{ unknown }}",
+      ].join("\n")
+    );
+    assert.deepStrictEqual(
+      JSON.parse(fs.readFileSync(path.join(outputDir, "app.json"), "utf8")),
+      [
+        { name: "app.R", content: "library(shiny)\n", type: "text" },
+        { name: "www/logo.png", content: "iVBORw0KGgo=", type: "binary" },
+      ]
+    );
+    assert.ok(fs.existsSync(path.join(outputDir, "shinylive", "shinylive.js")));
+    assert.ok(fs.existsSync(path.join(outputDir, "shinylive-sw.js")));
+    assert.ok(!fs.existsSync(path.join(outputDir, "export_template")));
+  });
+
+  test("findShinyliveAssets", async () => {
+    const assetsDir = writeAssets(path.join(root, "assets"));
+    assert.strictEqual(await findShinyliveAssets(assetsDir), assetsDir);
+
+    // The latest version in a cache directory, which sorts by version number
+    const cacheDir = path.join(root, "cache");
+    writeAssets(path.join(cacheDir, "shinylive-0.9.1"));
+    const latest = writeAssets(path.join(cacheDir, "shinylive-0.10.0"));
+    // Incomplete downloads are skipped
+    fs.mkdirSync(path.join(cacheDir, "shinylive-0.11.0"));
+    assert.strictEqual(await findShinyliveAssets(cacheDir), latest);
+
+    assert.strictEqual(await findShinyliveAssets(root), undefined);
+    assert.strictEqual(
+      await findShinyliveAssets(path.join(root, "missing")),
+      undefined
+    );
+  });
+
+  test("shinyliveSizeReport", () => {
+    const files: ShinyliveFile[] = [
+      { name: "app.py", content: "x".repeat(100) },
+      {
+        name: "data/model.bin",
+        content: Buffer.alloc(3000).toString("base64"),
+        type: "binary",
+      },
+    ];
+
+    assert.strictEqual(
+      shinyliveSizeReport(files),
+      [
+        "  app.py              100 B",
+        "  data/model.bin     3.9 KB (binary, 2.9 KB on disk)",
+        "  app.json           4.1 KB",
+      ].join("\n")
+    );
+  });
+});
@@ -10,14 +10,19 @@ export type RunFromOption = "projectRoot" | "appDirectory";
  *
  * Resolution order:
  * 1. Check workspace-specific override (shiny.runFromOverrides)
- * 2. Fall back to global default (shiny.runFrom)
- * 3. Apply the setting to determine actual directory
+ * 2. Use the app's project directory, if it has one
+ * 3. Fall back to global default (shiny.runFrom)
+ * 4. Apply the setting to determine actual directory
  *
  * @param appFilePath - Absolute path to the Shiny app file
+ * @param projectDir - Absolute path to the directory that the app must run
+ * from unless it's overridden, e.g. the root of the Python project that the
+ * app is a package of
  * @returns Absolute path to the working directory
  */
 export async function resolveWorkingDirectory(
-  appFilePath: string
+  appFilePath: string,
+  projectDir?: string
 ): Promise<string> {
   const workspaceFolders = vscode.workspace.workspaceFolders;
   if (!workspaceFolders || workspaceFolders.length === 0) {
@@ -56,6 +61,10 @@ export async function resolveWorkingDirectory(
     }
   }
 
+  if (projectDir) {
+    return projectDir;
+  }
+
   const runFrom = config.get<RunFromOption>("runFrom", "projectRoot");
 
   if (runFrom === "projectRoot") {